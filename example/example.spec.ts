@@ -6,18 +6,16 @@ import { CustomViewPageObject } from "./../src/helpers/ObsidianPageObject";
 // ===================================================================
 
 import { expect, test } from "../src";
-import {
-  DEFAULT_TEST_CONFIG,
-  PLUGIN_ID,
-  SANDBOX_VAULT_NAME,
-} from "../src/constants";
+import { createDefaultTestConfig, SANDBOX_VAULT_NAME } from "../src/constants";
 
 const VIEW_TYPE_CUSTOM_VIEW = "custom-view";
 
 class CustomPage extends CustomViewPageObject {}
 
 test.use({
-  vaultOptions: { ...DEFAULT_TEST_CONFIG, useSandbox: true },
+  vaultOptions: async ({ obsidianPaths }, use) => {
+    await use({ ...createDefaultTestConfig(obsidianPaths), useSandbox: true });
+  },
 });
 
 test("sandbox test: plugin activation and view creation via command", async ({
@@ -32,7 +30,7 @@ test("sandbox test: plugin activation and view creation via command", async ({
   expect(
     await vault.window.evaluate(
       (pluginId) => app.plugins.getPlugin(pluginId),
-      PLUGIN_ID
+      vault.paths.pluginId
     )
   ).toBeTruthy();
 
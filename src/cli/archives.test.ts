@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { deflateRawSync } from "node:zlib";
+import { extractAsar, extractZip } from "./archives.js";
+
+interface ZipEntry {
+  name: string;
+  content?: string;
+  deflate?: boolean;
+}
+
+/**
+ * Minimal zip writer (no CRCs; the reader does not check them)
+ */
+function buildZip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.content ?? "");
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDir = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDir.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDir, eocd]);
+}
+
+/**
+ * Minimal asar writer: `files` is the header tree, `data` the file contents
+ * in offset order
+ */
+function buildAsar(files: Record<string, unknown>, data: string[]): Buffer {
+  const json = Buffer.from(JSON.stringify({ files }));
+  const padded = Buffer.alloc(Math.ceil(json.length / 4) * 4);
+  json.copy(padded);
+
+  const headerPickle = Buffer.alloc(8 + padded.length);
+  headerPickle.writeUInt32LE(4 + padded.length, 0);
+  headerPickle.writeInt32LE(json.length, 4);
+  padded.copy(headerPickle, 8);
+
+  const sizePickle = Buffer.alloc(8);
+  sizePickle.writeUInt32LE(4, 0);
+  sizePickle.writeUInt32LE(headerPickle.length, 4);
+
+  return Buffer.concat([
+    sizePickle,
+    headerPickle,
+    ...data.map((d) => Buffer.from(d)),
+  ]);
+}
+
+let tmp: string;
+
+beforeEach(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "obsidian-e2e-archives-"));
+});
+
+afterEach(async () => {
+  await fs.rm(tmp, { recursive: true, force: true });
+});
+
+describe("extractZip", () => {
+  test("extracts stored and deflated entries", async () => {
+    const zipPath = path.join(tmp, "a.zip");
+    await fs.writeFile(
+      zipPath,
+      buildZip([
+        { name: "stored.txt", content: "plain" },
+        {
+          name: "nested/deflated.txt",
+          content: "x".repeat(500),
+          deflate: true,
+        },
+      ])
+    );
+
+    const out = path.join(tmp, "out");
+    await extractZip(zipPath, out);
+
+    assert.equal(
+      await fs.readFile(path.join(out, "stored.txt"), "utf-8"),
+      "plain"
+    );
+    assert.equal(
+      await fs.readFile(path.join(out, "nested/deflated.txt"), "utf-8"),
+      "x".repeat(500)
+    );
+  });
+
+  test("creates directory entries", async () => {
+    const zipPath = path.join(tmp, "a.zip");
+    await fs.writeFile(zipPath, buildZip([{ name: "empty/" }]));
+
+    const out = path.join(tmp, "out");
+    await extractZip(zipPath, out);
+
+    assert.ok((await fs.stat(path.join(out, "empty"))).isDirectory());
+  });
+
+  test("rejects entries outside the output directory", async () => {
+    const zipPath = path.join(tmp, "a.zip");
+    await fs.writeFile(
+      zipPath,
+      buildZip([{ name: "../evil.txt", content: "nope" }])
+    );
+
+    await assert.rejects(
+      extractZip(zipPath, path.join(tmp, "out")),
+      /escapes the output directory/
+    );
+    assert.equal(existsSync(path.join(tmp, "evil.txt")), false);
+  });
+});
+
+describe("extractAsar", () => {
+  test("resolves links relative to the archive root", async () => {
+    const asarPath = path.join(tmp, "app.asar");
+    await fs.writeFile(
+      asarPath,
+      buildAsar(
+        {
+          lib: { files: { "a.txt": { offset: "0", size: 5 } } },
+          sub: { files: { deep: { files: { link: { link: "lib/a.txt" } } } } },
+        },
+        ["hello"]
+      )
+    );
+
+    const out = path.join(tmp, "out");
+    await extractAsar(asarPath, out);
+
+    const link = path.join(out, "sub/deep/link");
+    assert.equal(await fs.readlink(link), path.join("..", "..", "lib/a.txt"));
+    assert.equal(await fs.readFile(link, "utf-8"), "hello");
+  });
+
+  test("fails when an unpacked file is missing", async () => {
+    const asarPath = path.join(tmp, "app.asar");
+    await fs.writeFile(
+      asarPath,
+      buildAsar({ "native.node": { offset: "0", size: 0, unpacked: true } }, [])
+    );
+
+    await assert.rejects(
+      extractAsar(asarPath, path.join(tmp, "out")),
+      /Unpacked file missing for native\.node/
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { inflateRawSync } from "zlib";
+
+interface AsarFileNode {
+  offset: string;
+  size: number;
+  executable?: boolean;
+  unpacked?: boolean;
+}
+
+interface AsarLinkNode {
+  link: string;
+}
+
+interface AsarDirectoryNode {
+  files: Record<string, AsarNode>;
+}
+
+type AsarNode = AsarFileNode | AsarLinkNode | AsarDirectoryNode;
+
+/**
+ * Extracts an Electron asar archive into `outDir`. Entries marked as unpacked
+ * are copied from `unpackedDir` (default: `<archive>.unpacked`).
+ */
+export async function extractAsar(
+  archivePath: string,
+  outDir: string,
+  unpackedDir = `${archivePath}.unpacked`
+): Promise<void> {
+  const archive = await fs.readFile(archivePath);
+
+  // Layout: [pickle(uint32 headerSize)][pickle(string headerJson)][file data]
+  const headerSize = archive.readUInt32LE(4);
+  const jsonLength = archive.readInt32LE(12);
+  const header: AsarDirectoryNode = JSON.parse(
+    archive.toString("utf-8", 16, 16 + jsonLength)
+  );
+  const dataOffset = 8 + headerSize;
+
+  const walk = async (node: AsarDirectoryNode, relDir: string) => {
+    await fs.mkdir(safeJoin(outDir, relDir), { recursive: true });
+
+    for (const [name, child] of Object.entries(node.files)) {
+      const relPath = path.join(relDir, name);
+      const target = safeJoin(outDir, relPath);
+
+      if ("files" in child) {
+        await walk(child, relPath);
+      } else if ("link" in child) {
+        // Links are stored relative to the archive root
+        await fs.symlink(
+          path.relative(path.dirname(target), safeJoin(outDir, child.link)),
+          target
+        );
+      } else if (child.unpacked) {
+        const source = path.join(unpackedDir, relPath);
+        if (!existsSync(source)) {
+          throw new Error(
+            `Unpacked file missing for ${relPath}: expected it at ${source}`
+          );
+        }
+        await fs.copyFile(source, target);
+      } else {
+        const start = dataOffset + Number(child.offset);
+        await fs.writeFile(target, archive.subarray(start, start + child.size), {
+          mode: child.executable ? 0o755 : 0o644,
+        });
+      }
+    }
+  };
+
+  await walk(header, ".");
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Extracts a zip file into `outDir`. Supports stored and deflated entries,
+ * which covers archives created by `zip` and most desktop tools.
+ */
+export async function extractZip(
+  zipPath: string,
+  outDir: string
+): Promise<void> {
+  const zip = await fs.readFile(zipPath);
+
+  const eocd = zip.lastIndexOf(
+    Buffer.from([0x50, 0x4b, 0x05, 0x06]),
+    zip.length - 22
+  );
+  if (eocd < 0 || zip.readUInt32LE(eocd) !== EOCD_SIGNATURE) {
+    throw new Error(`Not a zip file: ${zipPath}`);
+  }
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error(`ZIP64 archives are not supported: ${zipPath}`);
+  }
+
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error(`Corrupt zip central directory: ${zipPath}`);
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const unixMode = zip.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const target = safeJoin(outDir, name);
+    if (name.endsWith("/")) {
+      await fs.mkdir(target, { recursive: true });
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+
+    if (zip.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt zip entry: ${name}`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      zip.readUInt16LE(localOffset + 26) +
+      zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = raw;
+    } else if (method === 8) {
+      content = inflateRawSync(raw);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content, {
+      mode: unixMode & 0o777 ? unixMode & 0o777 : 0o644,
+    });
+  }
+}
+
+function safeJoin(root: string, relPath: string): string {
+  const base = path.resolve(root);
+  const target = path.resolve(base, relPath);
+  if (target !== base && !target.startsWith(base + path.sep)) {
+    throw new Error(`Archive entry escapes the output directory: ${relPath}`);
+  }
+  return target;
+}
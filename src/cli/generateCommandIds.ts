@@ -0,0 +1,93 @@
+import chalk from "chalk";
+import fs from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { loadE2EConfig } from "../configFile.js";
+import { createDefaultTestConfig } from "../constants.js";
+import { ObsidianTestLauncher } from "../launcher.js";
+
+export interface CommandInfo {
+  id: string;
+  name: string;
+}
+
+const DEFAULT_OUT = "e2e/obsidian-commands.generated.ts";
+
+/**
+ * `obsidian-e2e commands`: launches Obsidian with the plugin under test and
+ * writes every registered command ID to a TypeScript file
+ */
+export async function runGenerateCommandIds(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      out: { type: "string", short: "o", default: DEFAULT_OUT },
+      config: { type: "string", short: "c" },
+      "module-name": { type: "string", default: "obsidian-e2e-toolkit" },
+    },
+  });
+
+  const paths = await loadE2EConfig({ configFile: values.config });
+  const commands = await collectCommands(
+    new ObsidianTestLauncher(paths),
+    createDefaultTestConfig(paths)
+  );
+
+  const outPath = path.resolve(values.out!);
+  await fs.mkdir(path.dirname(outPath), { recursive: true });
+  await fs.writeFile(
+    outPath,
+    renderCommandIdsFile(commands, values["module-name"]!)
+  );
+
+  const pluginCount = commands.filter((c) =>
+    c.id.startsWith(`${paths.pluginId}:`)
+  ).length;
+  console.log(
+    chalk.green(
+      `Wrote ${commands.length} command IDs (${pluginCount} from ${paths.pluginId}) to ${path.relative(process.cwd(), outPath)}`
+    )
+  );
+}
+
+async function collectCommands(
+  launcher: ObsidianTestLauncher,
+  vaultOptions: Parameters<ObsidianTestLauncher["openVault"]>[0]
+): Promise<CommandInfo[]> {
+  try {
+    await launcher.launch();
+    const vault = await launcher.openVault(vaultOptions);
+    return await vault.window.evaluate(() =>
+      Object.values(app.commands.commands)
+        .map(({ id, name }) => ({ id, name }))
+        .sort((a, b) => a.id.localeCompare(b.id))
+    );
+  } finally {
+    await launcher.cleanup();
+  }
+}
+
+export function renderCommandIdsFile(
+  commands: CommandInfo[],
+  moduleName: string
+): string {
+  const entries = commands
+    .map(({ id, name }) => `    ${JSON.stringify(id)}: true; // ${name}`)
+    .join("\n");
+  const ids = commands.map(({ id }) => `  ${JSON.stringify(id)},`).join("\n");
+
+  return `// Generated by \`obsidian-e2e commands\`. Do not edit by hand.
+
+export const OBSIDIAN_COMMAND_IDS = [
+${ids}
+] as const;
+
+export type ObsidianCommandId = (typeof OBSIDIAN_COMMAND_IDS)[number];
+
+declare module ${JSON.stringify(moduleName)} {
+  interface CommandIdRegistry {
+${entries}
+  }
+}
+`;
+}
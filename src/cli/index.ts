@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+import chalk from "chalk";
+
+interface CliCommand {
+  description: string;
+  run(argv: string[]): Promise<void>;
+}
+
+// Commands are loaded on demand so `setup` does not pull in Playwright and
+// the launcher, which need a newer Node than unpacking does
+const COMMANDS: Record<string, CliCommand> = {
+  init: {
+    description: "Scaffold Playwright config, fixtures and specs",
+    run: async (argv) => (await import("./init.js")).runInit(argv),
+  },
+  setup: {
+    description: "Unpack Obsidian and build the plugin for E2E tests",
+    run: async (argv) => (await import("./setup.js")).runSetup(argv),
+  },
+  commands: {
+    description: "Generate typed command IDs from a running Obsidian",
+    run: async (argv) =>
+      (await import("./generateCommandIds.js")).runGenerateCommandIds(argv),
+  },
+};
+
+function printHelp(): void {
+  console.log("Usage: obsidian-e2e <command> [options]\n");
+  console.log("Commands:");
+  for (const [name, { description }] of Object.entries(COMMANDS)) {
+    console.log(`  ${name.padEnd(12)}${description}`);
+  }
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [name, ...rest] = argv;
+
+  if (!name || name === "--help" || name === "-h") {
+    printHelp();
+    return;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(chalk.red(`Unknown command: ${name}\n`));
+    printHelp();
+    process.exitCode = 1;
+    return;
+  }
+
+  await command.run(rest);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(chalk.red(error instanceof Error ? error.message : error));
+  process.exitCode = 1;
+});
@@ -0,0 +1,239 @@
+import chalk from "chalk";
+import { existsSync, globSync, readFileSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import type { ResolvedPaths } from "../config.js";
+import { loadE2EConfig } from "../configFile.js";
+
+interface ViewInfo {
+  viewType: string;
+  className: string;
+  constantName: string;
+}
+
+interface ScaffoldFile {
+  path: string;
+  content: string;
+}
+
+const SOURCE_PATTERNS = ["**/*.ts", "**/*.tsx", "**/*.js", "**/*.mjs"];
+const IGNORED_DIRS = ["node_modules", ".git", "dist", "build", "e2e"];
+
+/**
+ * `obsidian-e2e init`: generates a Playwright config, fixtures, page objects
+ * for the plugin's views and a smoke spec
+ */
+export async function runInit(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: "string", short: "c" },
+      dir: { type: "string", short: "d", default: "e2e" },
+      view: { type: "string", multiple: true },
+      force: { type: "boolean", short: "f", default: false },
+    },
+  });
+
+  const paths = await loadE2EConfig({ configFile: values.config });
+  const viewTypes = values.view?.length
+    ? values.view
+    : findRegisteredViewTypes(paths);
+  const views = viewTypes.map(toViewInfo);
+
+  const files = renderScaffold(paths, values.dir!, views);
+  for (const file of files) {
+    const target = path.join(paths.pluginDir, file.path);
+    if (existsSync(target) && !values.force) {
+      console.log(chalk.yellow(`Skipped ${file.path} (already exists)`));
+      continue;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content);
+    console.log(chalk.green(`Created ${file.path}`));
+  }
+
+  if (views.length === 0) {
+    console.log(
+      chalk.yellow(
+        "No registerView() calls found; pass --view <type> to generate page objects."
+      )
+    );
+  }
+  console.log(
+    chalk.cyan("\nNext: run `obsidian-e2e setup`, then `npx playwright test`.")
+  );
+}
+
+/**
+ * View types passed to `registerView()` in the plugin's sources, either as
+ * string literals or as constants defined in the same sources
+ */
+export function findRegisteredViewTypes(paths: ResolvedPaths): string[] {
+  const distDir = path.relative(paths.pluginDir, paths.distDir);
+  const files = globSync(SOURCE_PATTERNS, {
+    cwd: paths.pluginDir,
+    exclude: (file) =>
+      IGNORED_DIRS.includes(path.basename(file)) ||
+      (!!distDir && path.normalize(file) === distDir),
+  });
+
+  const constants = new Map<string, string>();
+  const literals: string[] = [];
+  const identifiers: string[] = [];
+
+  for (const file of files) {
+    const source = readFileSync(path.join(paths.pluginDir, file), "utf-8");
+    for (const match of source.matchAll(
+      /\b(?:const|let|var)\s+(\w+)\s*(?::\s*\w+\s*)?=\s*["'`]([^"'`]+)["'`]/g
+    )) {
+      constants.set(match[1], match[2]);
+    }
+    for (const match of source.matchAll(
+      /\bregisterView\(\s*(?:["'`]([^"'`]+)["'`]|([\w.]+))/g
+    )) {
+      if (match[1]) literals.push(match[1]);
+      else identifiers.push(match[2].split(".").pop()!);
+    }
+  }
+
+  // Identifiers defined outside the plugin's sources cannot be resolved
+  const resolved = identifiers.flatMap((name) => constants.get(name) ?? []);
+  return [...new Set([...literals, ...resolved])];
+}
+
+function toViewInfo(viewType: string): ViewInfo {
+  const words = viewType.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const pascal = words
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  const base = /^[A-Za-z]/.test(pascal) ? pascal : `View${pascal}`;
+
+  return {
+    viewType,
+    className: base.endsWith("View") ? `${base}Page` : `${base}ViewPage`,
+    constantName: `VIEW_TYPE_${words.join("_").toUpperCase()}`,
+  };
+}
+
+export function renderScaffold(
+  paths: ResolvedPaths,
+  dir: string,
+  views: ViewInfo[]
+): ScaffoldFile[] {
+  return [
+    { path: "playwright.config.ts", content: renderPlaywrightConfig(dir) },
+    { path: `${dir}/fixtures.ts`, content: renderFixtures(paths, views) },
+    ...views.map((view) => ({
+      path: `${dir}/pages/${view.className}.ts`,
+      content: renderPageObject(view),
+    })),
+    { path: `${dir}/smoke.spec.ts`, content: renderSmokeSpec(paths, views) },
+  ];
+}
+
+function renderPlaywrightConfig(dir: string): string {
+  return `import { defineObsidianConfig } from "obsidian-e2e-toolkit";
+
+export default defineObsidianConfig({
+  testDir: ${JSON.stringify(`./${dir}`)},
+});
+`;
+}
+
+function renderFixtures(paths: ResolvedPaths, views: ViewInfo[]): string {
+  const imports = views
+    .map((v) => `import { ${v.className} } from "./pages/${v.className}.js";\n`)
+    .join("");
+  const fields = views
+    .map((v) => `  ${lowerFirst(v.className)}: ${v.className};\n`)
+    .join("");
+  const fixtures = views
+    .map(
+      (v) => `  ${lowerFirst(v.className)}: async ({ vault }, use) => {
+    await use(new ${v.className}(vault));
+  },
+`
+    )
+    .join("");
+
+  return `import {
+  test as base,
+  createDefaultTestConfig,
+  ObsidianPageObject,
+} from "obsidian-e2e-toolkit";
+${imports}
+export { expect } from "obsidian-e2e-toolkit";
+
+export const PLUGIN_ID = ${JSON.stringify(paths.pluginId)};
+
+interface PluginFixtures {
+  obsidian: ObsidianPageObject;
+${fields}}
+
+export const test = base.extend<PluginFixtures>({
+  vaultOptions: async ({ obsidianPaths }, use) => {
+    await use({
+      ...createDefaultTestConfig(obsidianPaths),
+      failOnConsoleError: true,
+    });
+  },
+  obsidian: async ({ vault }, use) => {
+    await use(new ObsidianPageObject(vault));
+  },
+${fixtures}});
+`;
+}
+
+function renderPageObject(view: ViewInfo): string {
+  return `import type { Locator } from "@playwright/test";
+import {
+  expect,
+  ObsidianPageObject,
+  type VaultPageTextContext,
+} from "obsidian-e2e-toolkit";
+
+export const ${view.constantName} = ${JSON.stringify(view.viewType)};
+
+export class ${view.className} extends ObsidianPageObject {
+  constructor(vault: VaultPageTextContext) {
+    super(vault, { viewType: ${view.constantName} });
+  }
+
+  get view(): Locator {
+    return this.getViewByType(${view.constantName});
+  }
+
+  async open(): Promise<void> {
+    await this.vaultContext!.window.evaluate(async (type) => {
+      await app.workspace.getLeaf("tab").setViewState({ type, active: true });
+    }, ${view.constantName});
+    await expect(this.view).toBeVisible();
+  }
+}
+`;
+}
+
+function renderSmokeSpec(paths: ResolvedPaths, views: ViewInfo[]): string {
+  const viewTests = views
+    .map(
+      (v) => `
+test("opens the ${v.viewType} view", async ({ ${lowerFirst(v.className)} }) => {
+  await ${lowerFirst(v.className)}.open();
+  await expect(${lowerFirst(v.className)}.view).toBeVisible();
+});
+`
+    )
+    .join("");
+
+  return `import { expect, PLUGIN_ID, test } from "./fixtures.js";
+
+test(${JSON.stringify(`${paths.manifest.name} loads`)}, async ({ obsidian }) => {
+  expect(await obsidian.isPluginEnabled(PLUGIN_ID)).toBe(true);
+});
+${viewTests}`;
+}
+
+function lowerFirst(name: string): string {
+  return name[0].toLowerCase() + name.slice(1);
+}
@@ -0,0 +1,201 @@
+import chalk from "chalk";
+import { spawn } from "child_process";
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { parseArgs } from "util";
+import type { ResolvedPaths } from "../config.js";
+import { loadE2EConfig } from "../configFile.js";
+import { extractAsar, extractZip } from "./archives.js";
+
+const STAMP_FILE = ".obsidian-e2e-setup.json";
+
+interface SetupStamp {
+  checksums: Record<string, string>;
+}
+
+/**
+ * `obsidian-e2e setup`: unpacks the Obsidian assets into
+ * `obsidianUnpackedDir` and builds the plugin
+ */
+export async function runSetup(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: "string", short: "c" },
+      force: { type: "boolean", short: "f", default: false },
+      build: { type: "string" },
+      "skip-build": { type: "boolean", default: false },
+    },
+  });
+
+  const paths = await loadE2EConfig({ configFile: values.config });
+
+  await unpackObsidian(paths, { force: values.force });
+
+  const buildCommand = values["skip-build"]
+    ? false
+    : (values.build ?? paths.buildCommand ?? detectBuildCommand(paths));
+  if (buildCommand) {
+    await runBuild(buildCommand, paths.pluginDir);
+  } else {
+    console.log(chalk.yellow("Skipping plugin build."));
+  }
+
+  console.log(chalk.green("E2E setup finished."));
+}
+
+/**
+ * Extracts `app.asar` (with `app.asar.unpacked.zip`) and copies
+ * `obsidian.asar` into `obsidianUnpackedDir`. Skipped when the assets are
+ * unchanged since the last run.
+ */
+export async function unpackObsidian(
+  paths: ResolvedPaths,
+  { force = false }: { force?: boolean } = {}
+): Promise<void> {
+  const outDir = paths.obsidianUnpackedDir;
+  const appAsar = path.join(paths.assetsDir, "app.asar");
+  const unpackedZip = path.join(paths.assetsDir, "app.asar.unpacked.zip");
+  const obsidianAsar = path.join(paths.assetsDir, "obsidian.asar");
+
+  if (!existsSync(appAsar)) {
+    throw new Error(
+      `app.asar not found at ${appAsar}. Make sure it is present in the assets directory.`
+    );
+  }
+
+  const checksums: Record<string, string> = {};
+  for (const file of [appAsar, unpackedZip, obsidianAsar]) {
+    if (existsSync(file)) {
+      checksums[path.basename(file)] = await sha256(file);
+    }
+  }
+
+  if (!force && isUpToDate(outDir, paths.appMainFile, checksums)) {
+    console.log(chalk.cyan(`Obsidian assets unchanged, keeping ${outDir}`));
+    return;
+  }
+
+  console.log(chalk.cyan(`Unpacking Obsidian assets into ${outDir}...`));
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "obsidian-e2e-setup-"));
+  const stagingDir = `${outDir}.tmp-${process.pid}`;
+
+  try {
+    let unpackedDir = `${appAsar}.unpacked`;
+    if (existsSync(unpackedZip)) {
+      await extractZip(unpackedZip, workDir);
+      unpackedDir = path.join(workDir, "app.asar.unpacked");
+    } else {
+      console.log(
+        chalk.yellow("app.asar.unpacked.zip not found, skipping unzip.")
+      );
+    }
+
+    await fs.rm(stagingDir, { recursive: true, force: true });
+    await extractAsar(appAsar, stagingDir, unpackedDir);
+
+    // main.js is CommonJS, but the package may declare "type": "module"
+    const mainJs = path.join(stagingDir, "main.js");
+    if (existsSync(mainJs)) {
+      await fs.rename(mainJs, path.join(stagingDir, paths.appMainFile));
+    }
+
+    if (existsSync(obsidianAsar)) {
+      await fs.copyFile(obsidianAsar, path.join(stagingDir, "obsidian.asar"));
+    }
+
+    validateUnpacked(stagingDir, paths.appMainFile);
+    await fs.writeFile(
+      path.join(stagingDir, STAMP_FILE),
+      JSON.stringify({ checksums } satisfies SetupStamp, null, 2)
+    );
+
+    await fs.rm(outDir, { recursive: true, force: true });
+    await fs.rename(stagingDir, outDir);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+
+  console.log(chalk.green("Obsidian assets unpacked."));
+}
+
+function validateUnpacked(dir: string, appMainFile: string): void {
+  const missing = [appMainFile, "obsidian.asar"].filter(
+    (file) => !existsSync(path.join(dir, file))
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Unpacked Obsidian is missing ${missing.join(", ")}. ` +
+        `Check that app.asar and obsidian.asar are in the assets directory.`
+    );
+  }
+}
+
+function isUpToDate(
+  outDir: string,
+  appMainFile: string,
+  checksums: Record<string, string>
+): boolean {
+  const stampPath = path.join(outDir, STAMP_FILE);
+  if (!existsSync(stampPath)) return false;
+
+  try {
+    validateUnpacked(outDir, appMainFile);
+  } catch {
+    return false;
+  }
+
+  const stamp: SetupStamp = JSON.parse(readFileSync(stampPath, "utf-8"));
+  return JSON.stringify(stamp.checksums) === JSON.stringify(checksums);
+}
+
+async function sha256(file: string): Promise<string> {
+  return createHash("sha256")
+    .update(await fs.readFile(file))
+    .digest("hex");
+}
+
+/**
+ * `<package manager> run build` when the plugin's package.json has a build
+ * script. The package manager is taken from the invoking one, then the
+ * lockfile.
+ */
+function detectBuildCommand(paths: ResolvedPaths): string | false {
+  const packageJson = path.join(paths.pluginDir, "package.json");
+  if (
+    !existsSync(packageJson) ||
+    !JSON.parse(readFileSync(packageJson, "utf-8")).scripts?.build
+  ) {
+    return false;
+  }
+
+  const userAgent = process.env.npm_config_user_agent ?? "";
+  const lockfiles: [string, string][] = [
+    ["pnpm-lock.yaml", "pnpm"],
+    ["yarn.lock", "yarn"],
+    ["bun.lock", "bun"],
+    ["bun.lockb", "bun"],
+  ];
+  const manager =
+    ["pnpm", "yarn", "bun"].find((pm) => userAgent.startsWith(`${pm}/`)) ??
+    lockfiles.find(([file]) => existsSync(path.join(paths.pluginDir, file)))?.[1] ??
+    "npm";
+
+  return `${manager} run build`;
+}
+
+async function runBuild(command: string, cwd: string): Promise<void> {
+  console.log(chalk.cyan(`Building plugin: ${command}`));
+  const code = await new Promise<number | null>((resolve, reject) => {
+    const child = spawn(command, { cwd, shell: true, stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", resolve);
+  });
+  if (code !== 0) {
+    throw new Error(`Plugin build failed (exit code ${code}): ${command}`);
+  }
+}
@@ -40,6 +40,25 @@ export interface ObsidianE2EConfig {
 	 */
 	pluginId?: string;
 
+	/**
+	 * Obsidian app version to run (e.g. "1.5.12"). When set, the app is
+	 * prepared in `cacheDir/<version>` instead of `obsidianUnpackedDir`
+	 */
+	obsidianVersion?: string;
+
+	/**
+	 * Directory holding one prepared app per Obsidian version
+	 * (default: ".obsidian-cache" next to `obsidianUnpackedDir`)
+	 */
+	cacheDir?: string;
+
+	/**
+	 * Shell command run by `obsidian-e2e setup` to build the plugin, or
+	 * `false` to skip the build (default: `<package manager> run build` when
+	 * package.json has a build script)
+	 */
+	buildCommand?: string | false;
+
 	/**
 	 * Plugin manifest data (if not provided, will be read from pluginDir/manifest.json)
 	 */
@@ -61,6 +80,9 @@ export interface ResolvedPaths {
 	obsidianUnpackedDir: string;
 	appMainFile: string;
 	appMainJsPath: string;
+	obsidianVersion?: string;
+	cacheDir: string;
+	buildCommand?: string | false;
 	pluginId: string;
 	manifest: {
 		id: string;
@@ -119,8 +141,15 @@ export function resolveConfig(config: ObsidianE2EConfig): ResolvedPaths {
 		? path.resolve(config.obsidianUnpackedDir)
 		: defaultObsidianUnpackedDir;
 
+	const cacheDir = config.cacheDir
+		? path.resolve(config.cacheDir)
+		: path.join(path.dirname(obsidianUnpackedDir), ".obsidian-cache");
+
 	const appMainFile = config.appMainFile || "main.cjs";
-	const appMainJsPath = path.join(obsidianUnpackedDir, appMainFile);
+	const appDir = config.obsidianVersion
+		? path.join(cacheDir, config.obsidianVersion)
+		: obsidianUnpackedDir;
+	const appMainJsPath = path.join(appDir, appMainFile);
 
 	return {
 		pluginDir,
@@ -129,6 +158,9 @@ export function resolveConfig(config: ObsidianE2EConfig): ResolvedPaths {
 		obsidianUnpackedDir,
 		appMainFile,
 		appMainJsPath,
+		obsidianVersion: config.obsidianVersion,
+		cacheDir,
+		buildCommand: config.buildCommand,
 		pluginId,
 		manifest,
 	};
@@ -141,7 +173,7 @@ export function createLaunchOptions(paths: ResolvedPaths) {
 	if (!existsSync(paths.appMainJsPath)) {
 		throw new Error(
 			`Obsidian app not found at: ${paths.appMainJsPath}. ` +
-				`Please run the setup script to unpack Obsidian assets.`
+				`Run \`npx obsidian-e2e setup\` to unpack Obsidian assets.`
 		);
 	}
 
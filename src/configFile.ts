@@ -0,0 +1,168 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import type { ObsidianE2EConfig, ResolvedPaths } from "./config.js";
+import { resolveConfig } from "./config.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * File names searched for, from the working directory upwards
+ */
+export const CONFIG_FILE_NAMES = [
+	"obsidian-e2e.config.ts",
+	"obsidian-e2e.config.mts",
+	"obsidian-e2e.config.js",
+	"obsidian-e2e.config.mjs",
+];
+
+/**
+ * Contents of an `obsidian-e2e.config.ts` file
+ */
+export interface ObsidianE2EConfigFile extends Partial<ObsidianE2EConfig> {
+	/**
+	 * Overrides keyed by Playwright project name
+	 */
+	projects?: Record<string, Partial<ObsidianE2EConfig>>;
+}
+
+export interface LoadConfigOptions {
+	/** Directory to start searching from (default: `process.cwd()`) */
+	cwd?: string;
+	/** Explicit config file; skips discovery */
+	configFile?: string;
+	/** Playwright project whose overrides apply */
+	projectName?: string;
+	/** Applied last, e.g. from the `obsidianConfig` fixture option */
+	overrides?: Partial<ObsidianE2EConfig>;
+}
+
+/**
+ * Identity helper that gives `obsidian-e2e.config.ts` its types
+ *
+ * @example
+ * ```typescript
+ * export default defineE2EConfig({
+ *   distDir: "build",
+ *   projects: { legacy: { obsidianUnpackedDir: ".obsidian-legacy" } },
+ * });
+ * ```
+ */
+export function defineE2EConfig(
+	config: ObsidianE2EConfigFile
+): ObsidianE2EConfigFile {
+	return config;
+}
+
+/**
+ * Root of the installed toolkit package (where `assets/` lives)
+ */
+export function getToolkitRoot(): string {
+	let dir = __dirname;
+	while (dir !== path.dirname(dir)) {
+		const packageJson = path.join(dir, "package.json");
+		if (
+			existsSync(packageJson) &&
+			JSON.parse(readFileSync(packageJson, "utf-8")).name ===
+				"obsidian-e2e-toolkit"
+		) {
+			return dir;
+		}
+		dir = path.dirname(dir);
+	}
+	return path.dirname(__dirname);
+}
+
+export function findConfigFile(cwd = process.cwd()): string | undefined {
+	let dir = path.resolve(cwd);
+	while (true) {
+		for (const name of CONFIG_FILE_NAMES) {
+			const candidate = path.join(dir, name);
+			if (existsSync(candidate)) return candidate;
+		}
+		const parent = path.dirname(dir);
+		if (parent === dir) return undefined;
+		dir = parent;
+	}
+}
+
+const fileCache = new Map<string, Promise<ObsidianE2EConfigFile>>();
+
+async function importConfigFile(file: string): Promise<ObsidianE2EConfigFile> {
+	let loaded = fileCache.get(file);
+	if (!loaded) {
+		loaded = import(pathToFileURL(file).href).then(
+			(mod) => (mod.default ?? mod) as ObsidianE2EConfigFile
+		);
+		fileCache.set(file, loaded);
+	}
+	return loaded;
+}
+
+/**
+ * Finds and loads the E2E config, applies project overrides and resolves
+ * paths. Nothing is read until this is called.
+ *
+ * Lookup order: `configFile`, `$OBSIDIAN_E2E_CONFIG`, then
+ * `obsidian-e2e.config.*` from `cwd` upwards. Without a file, the working
+ * directory is the plugin directory.
+ */
+export async function loadE2EConfig(
+	options: LoadConfigOptions = {}
+): Promise<ResolvedPaths> {
+	const cwd = path.resolve(options.cwd ?? process.cwd());
+	const configFile =
+		options.configFile ??
+		process.env.OBSIDIAN_E2E_CONFIG ??
+		findConfigFile(cwd);
+
+	let fileConfig: Partial<ObsidianE2EConfig> = {};
+	let baseDir = cwd;
+
+	if (configFile) {
+		const absolute = path.resolve(cwd, configFile);
+		if (!existsSync(absolute)) {
+			throw new Error(`E2E config file not found: ${absolute}`);
+		}
+		const { projects, ...base } = await importConfigFile(absolute);
+		const projectOverrides = options.projectName
+			? projects?.[options.projectName]
+			: undefined;
+
+		baseDir = path.dirname(absolute);
+		fileConfig = { ...base, ...projectOverrides };
+	}
+
+	const toolkitRoot = getToolkitRoot();
+	const merged: ObsidianE2EConfig = {
+		pluginDir: ".",
+		assetsDir: path.join(toolkitRoot, "assets"),
+		obsidianUnpackedDir: path.join(toolkitRoot, ".obsidian-unpacked"),
+		...resolvePathFields(fileConfig, baseDir),
+		...resolvePathFields(options.overrides ?? {}, cwd),
+	};
+	merged.pluginDir = path.resolve(baseDir, merged.pluginDir);
+
+	return resolveConfig(merged);
+}
+
+const PATH_FIELDS = [
+	"pluginDir",
+	"distDir",
+	"assetsDir",
+	"obsidianUnpackedDir",
+	"cacheDir",
+] as const;
+
+function resolvePathFields(
+	config: Partial<ObsidianE2EConfig>,
+	baseDir: string
+): Partial<ObsidianE2EConfig> {
+	const resolved = { ...config };
+	for (const field of PATH_FIELDS) {
+		const value = resolved[field];
+		if (value) resolved[field] = path.resolve(baseDir, value);
+	}
+	return resolved;
+}
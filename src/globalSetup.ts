@@ -0,0 +1,63 @@
+import type { FullConfig } from "@playwright/test";
+import { existsSync } from "fs";
+import log from "loglevel";
+import path from "path";
+import type { ObsidianE2EConfig } from "./config.js";
+import { loadE2EConfig } from "./configFile.js";
+import { REQUIRED_PLUGIN_FILES } from "./launcher.js";
+import { ensureObsidianVersion } from "./versions.js";
+
+const logger = log.getLogger("globalSetup");
+
+/**
+ * Playwright globalSetup wired up by `defineObsidianConfig()`. Checks once
+ * per run, for every project, that the Obsidian app is unpacked (preparing
+ * pinned versions) and that the plugin has been built.
+ */
+export default async function globalSetup(config: FullConfig): Promise<void> {
+  const problems: string[] = [];
+  const checkedApps = new Set<string>();
+
+  for (const project of config.projects) {
+    const overrides = (
+      project.use as { obsidianConfig?: Partial<ObsidianE2EConfig> }
+    ).obsidianConfig;
+    const paths = await loadE2EConfig({
+      projectName: project.name,
+      overrides,
+    });
+
+    if (!checkedApps.has(paths.appMainJsPath)) {
+      checkedApps.add(paths.appMainJsPath);
+      try {
+        await ensureObsidianVersion(paths);
+      } catch (error) {
+        problems.push(
+          `[${project.name}] ${error instanceof Error ? error.message : error}`
+        );
+      }
+      if (!paths.obsidianVersion && !existsSync(paths.appMainJsPath)) {
+        problems.push(
+          `[${project.name}] Obsidian app not found at ${paths.appMainJsPath}. ` +
+            "Run `npx obsidian-e2e setup` to unpack Obsidian assets."
+        );
+      }
+    }
+
+    const missing = REQUIRED_PLUGIN_FILES.filter(
+      (file) => !existsSync(path.join(paths.distDir, file))
+    );
+    if (missing.length > 0) {
+      problems.push(
+        `[${project.name}] Plugin ${paths.pluginId} is not built: ` +
+          `${missing.join(", ")} missing in ${paths.distDir}`
+      );
+    }
+
+    logger.debug(`checked project ${project.name}`, paths);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Obsidian E2E setup is incomplete:\n${problems.join("\n")}`);
+  }
+}
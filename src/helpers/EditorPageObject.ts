@@ -0,0 +1,241 @@
+import type { JSHandle } from "playwright";
+import { ObsidianPageObject } from "./ObsidianPageObject.js";
+import type {
+  CommandId,
+  EditorDecoration,
+  EditorPosition,
+  EditorSelectionRange,
+  FoldedRange,
+} from "./types.js";
+
+// Minimal Editor interface to avoid importing from obsidian package
+interface Editor {
+  /** CodeMirror の EditorView（内部 API のため型なし） */
+  cm: any;
+  focus(): void;
+  getValue(): string;
+  setValue(content: string): void;
+  getLine(line: number): string;
+  getCursor(): EditorPosition;
+  setCursor(position: EditorPosition): void;
+  listSelections(): EditorSelectionRange[];
+  setSelections(ranges: EditorSelectionRange[], main?: number): void;
+  getSelection(): string;
+}
+
+/**
+ * アクティブなエディタを Obsidian の `Editor` API と CodeMirror の状態で操作する
+ * Page Object
+ *
+ * 位置はすべて 0 始まりの `{ line, ch }`
+ */
+export class EditorPageObject extends ObsidianPageObject {
+  /**
+   * アクティブな `Editor`（なければ例外）のハンドルを `use` に渡す
+   * ハンドルは `use` の完了後に破棄する
+   */
+  private async withEditor<R>(
+    use: (editor: JSHandle<Editor>) => Promise<R>
+  ): Promise<R> {
+    const editor: JSHandle<Editor> = await this.page.evaluateHandle(() => {
+      const active = app.workspace.activeEditor?.editor;
+      if (!active) throw new Error("No active editor");
+      return active as unknown as Editor;
+    });
+    try {
+      return await use(editor);
+    } finally {
+      await editor.dispose();
+    }
+  }
+
+  async focus(): Promise<void> {
+    await this.withEditor((h) => h.evaluate((e) => e.focus()));
+  }
+
+  // ===== 内容 =====
+
+  async getValue(): Promise<string> {
+    return this.withEditor((h) => h.evaluate((e) => e.getValue()));
+  }
+
+  async setValue(content: string): Promise<void> {
+    await this.withEditor((h) =>
+      h.evaluate((e, c) => e.setValue(c), content)
+    );
+  }
+
+  async getLine(line: number): Promise<string> {
+    return this.withEditor((h) => h.evaluate((e, l) => e.getLine(l), line));
+  }
+
+  // ===== カーソルと選択範囲 =====
+
+  async getCursor(): Promise<EditorPosition> {
+    return this.withEditor((h) =>
+      h.evaluate((e) => {
+        const { line, ch } = e.getCursor();
+        return { line, ch };
+      })
+    );
+  }
+
+  async setCursor(position: EditorPosition): Promise<void> {
+    await this.withEditor((h) =>
+      h.evaluate((e, pos) => e.setCursor(pos), position)
+    );
+  }
+
+  async getSelections(): Promise<EditorSelectionRange[]> {
+    return this.withEditor((h) =>
+      h.evaluate((e) =>
+        e.listSelections().map(({ anchor, head }) => ({
+          anchor: { line: anchor.line, ch: anchor.ch },
+          head: { line: head.line, ch: head.ch },
+        }))
+      )
+    );
+  }
+
+  /**
+   * 選択範囲を設定（`main` は主選択のインデックス）
+   */
+  async setSelections(
+    ranges: EditorSelectionRange[],
+    main?: number
+  ): Promise<void> {
+    await this.withEditor((h) =>
+      h.evaluate((e, [r, m]) => e.setSelections(r, m), [ranges, main] as const)
+    );
+  }
+
+  async setSelection(
+    anchor: EditorPosition,
+    head: EditorPosition = anchor
+  ): Promise<void> {
+    await this.setSelections([{ anchor, head }]);
+  }
+
+  async getSelectedText(): Promise<string> {
+    return this.withEditor((h) => h.evaluate((e) => e.getSelection()));
+  }
+
+  // ===== 入力 =====
+
+  /**
+   * 指定位置にカーソルを置き、実際のキーイベントで入力する
+   * （入力ルールやキーマップなどのエディタ拡張が反応する）
+   */
+  async typeAt(
+    position: EditorPosition,
+    text: string,
+    options: { delay?: number } = {}
+  ): Promise<void> {
+    await this.focus();
+    await this.setCursor(position);
+    await this.window.keyboard.type(text, options);
+  }
+
+  async press(key: string): Promise<void> {
+    await this.focus();
+    await this.window.keyboard.press(key);
+  }
+
+  /**
+   * エディタにフォーカスしてからコマンドを実行（`editorCallback` 系のコマンド用）
+   */
+  async runEditorCommand(commandId: CommandId): Promise<void> {
+    await this.focus();
+    await this.runCommand(commandId);
+  }
+
+  // ===== CodeMirror の状態 =====
+
+  /**
+   * 折りたたまれている範囲（行番号）
+   */
+  async getFoldedRanges(): Promise<FoldedRange[]> {
+    return this.page.evaluate(() => {
+      const view = app.workspace.activeLeaf?.view as any;
+      const info = view?.currentMode?.getFoldInfo?.();
+      return (info?.folds ?? []).map(
+        ({ from, to }: { from: number; to: number }) => ({ from, to })
+      );
+    });
+  }
+
+  /**
+   * `EditorView.decorations` に提供されている全デコレーション
+   * （ViewPlugin や StateField 由来のものを含む）
+   */
+  async getDecorations(): Promise<EditorDecoration[]> {
+    return this.withEditor((h) =>
+      h.evaluate((e) => {
+        const cm = e.cm;
+        const sources: any[] = cm.state.facet(cm.constructor.decorations);
+        const decorations: EditorDecoration[] = [];
+
+        for (const source of sources) {
+          const set = typeof source === "function" ? source(cm) : source;
+          set.between(
+            0,
+            cm.state.doc.length,
+            (from: number, to: number, value: any) => {
+              const spec = value.spec ?? {};
+              decorations.push({
+                from,
+                to,
+                className: spec.class || undefined,
+                widget: spec.widget?.constructor.name,
+                attributes: spec.attributes,
+              });
+            }
+          );
+        }
+        return decorations.sort((a, b) => a.from - b.from || a.to - b.to);
+      })
+    );
+  }
+
+  /**
+   * ウィジェットを持つデコレーションのみ
+   */
+  async getWidgets(): Promise<EditorDecoration[]> {
+    return (await this.getDecorations()).filter((d) => d.widget);
+  }
+
+  /**
+   * CodeMirror の更新・計測が終わり、状態が数フレーム変化しなくなるまで待つ
+   */
+  async waitForIdle(timeout = 5000): Promise<void> {
+    await this.withEditor((h) =>
+      h.evaluate(
+        (e, ms) =>
+          new Promise<void>((resolve, reject) => {
+            const cm = e.cm;
+            const deadline = performance.now() + ms;
+            let lastState = cm.state;
+            let stableFrames = 0;
+
+            const tick = () => {
+              const idle =
+                cm.updateState === 0 &&
+                cm.measureScheduled < 0 &&
+                !cm.composing &&
+                cm.state === lastState;
+              stableFrames = idle ? stableFrames + 1 : 0;
+              lastState = cm.state;
+
+              if (stableFrames >= 3) return resolve();
+              if (performance.now() > deadline) {
+                return reject(new Error(`Editor was not idle after ${ms}ms`));
+              }
+              requestAnimationFrame(tick);
+            };
+            requestAnimationFrame(tick);
+          }),
+        timeout
+      )
+    );
+  }
+}
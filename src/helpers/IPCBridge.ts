@@ -3,11 +3,11 @@
 // ===================================================================
 
 export class IPCBridge {
-	constructor(private setup: { ensureSingleWindow: () => Promise<any>; waitForVaultReady: (page: any) => Promise<void> }) {}
+	constructor(private setup: { getMainWindow: () => Promise<any>; waitForVaultReady: (page: any) => Promise<void> }) {}
 
 	private async send<T>(channel: string, ...args: unknown[]): Promise<T> {
 		await this.ensurePageLoaded();
-		return (await this.setup.ensureSingleWindow()).evaluate(
+		return (await this.setup.getMainWindow()).evaluate(
 			([ch, ...restArgs]: [string, ...unknown[]]) => {
 				return (window as any).electron.ipcRenderer.sendSync(ch, ...restArgs);
 			},
@@ -16,7 +16,7 @@ export class IPCBridge {
 	}
 
 	private async ensurePageLoaded(): Promise<void> {
-		const page = await this.setup.ensureSingleWindow();
+		const page = await this.setup.getMainWindow();
 		await page.waitForLoadState("domcontentloaded");
 
 		// スターターページでない場合はappオブジェクトを待つ
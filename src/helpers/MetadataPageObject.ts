@@ -0,0 +1,201 @@
+import { expect } from "playwright/test";
+import { ObsidianPageObject } from "./ObsidianPageObject.js";
+import type { MetadataHeading, MetadataLink } from "./types.js";
+import { waitForMetadataCache } from "./utils.js";
+
+export interface MetadataPollOptions {
+  timeout?: number;
+}
+
+/**
+ * `app.metadataCache` のインデックス結果（frontmatter、タグ、見出し、リンク）を
+ * 取得・検証する Page Object
+ *
+ * 取得系はその時点の値を返す。確定した値が必要なら先に
+ * `waitForMetadataResolved()` を呼ぶ。`expect*` 系は一致するまでポーリングする。
+ */
+export class MetadataPageObject extends ObsidianPageObject {
+  // ===== 待機 =====
+
+  /**
+   * メタデータキャッシュの初期化と保留中のインデックス処理が終わるまで待つ
+   */
+  async waitForMetadataResolved(timeout = 10000): Promise<void> {
+    await waitForMetadataCache(this.page, timeout);
+  }
+
+  // ===== 取得 =====
+
+  async getFrontmatter<T = Record<string, unknown>>(
+    path: string
+  ): Promise<T | undefined> {
+    return this.page.evaluate(
+      (p) => app.metadataCache.getCache(p)?.frontmatter as any,
+      path
+    );
+  }
+
+  /**
+   * 本文と frontmatter のタグを `#` 付きで返す（Obsidian の `getAllTags` による）
+   */
+  async getTags(path: string): Promise<string[]> {
+    return this.page.evaluate((p) => {
+      const cache = app.metadataCache.getCache(p);
+      if (!cache) return [];
+      const { getAllTags } = (window as any).require("obsidian");
+      return [...new Set<string>(getAllTags(cache) ?? [])];
+    }, path);
+  }
+
+  async getHeadings(path: string): Promise<MetadataHeading[]> {
+    return this.page.evaluate(
+      (p) =>
+        (app.metadataCache.getCache(p)?.headings ?? []).map(
+          ({ heading, level }) => ({ heading, level })
+        ),
+      path
+    );
+  }
+
+  /**
+   * 本文中のリンクと埋め込み（出現順）
+   */
+  async getOutgoingLinks(path: string): Promise<MetadataLink[]> {
+    return this.page.evaluate((p) => {
+      const cache = app.metadataCache.getCache(p);
+      const toLink = (embed: boolean) => (ref: any) => ({
+        link: ref.link as string,
+        original: ref.original as string,
+        displayText: ref.displayText as string | undefined,
+        embed,
+        offset: ref.position.start.offset as number,
+      });
+      return [
+        ...(cache?.links ?? []).map(toLink(false)),
+        ...(cache?.embeds ?? []).map(toLink(true)),
+      ]
+        .sort((a, b) => a.offset - b.offset)
+        .map(({ offset, ...link }) => link);
+    }, path);
+  }
+
+  /**
+   * 解決済みリンク先のパスとリンク数
+   */
+  async getResolvedLinks(path: string): Promise<Record<string, number>> {
+    return this.page.evaluate(
+      (p) => ({ ...app.metadataCache.resolvedLinks[p] }),
+      path
+    );
+  }
+
+  /**
+   * 未解決リンクのリンクテキストとリンク数
+   */
+  async getUnresolvedLinks(path: string): Promise<Record<string, number>> {
+    return this.page.evaluate(
+      (p) => ({ ...app.metadataCache.unresolvedLinks[p] }),
+      path
+    );
+  }
+
+  /**
+   * `path` へ解決済みリンクを持つファイルのパス（ソート済み）
+   */
+  async getBacklinks(path: string): Promise<string[]> {
+    return this.page.evaluate(
+      (p) =>
+        Object.entries(app.metadataCache.resolvedLinks)
+          .filter(([, targets]) => targets[p] > 0)
+          .map(([source]) => source)
+          .sort(),
+      path
+    );
+  }
+
+  // ===== アサーション（ポーリング） =====
+
+  /**
+   * frontmatter が `expected` を含むこと（部分一致）
+   */
+  async expectFrontmatter(
+    path: string,
+    expected: Record<string, unknown>,
+    options?: MetadataPollOptions
+  ): Promise<void> {
+    await expect
+      .poll(() => this.getFrontmatter(path), {
+        message: `frontmatter of ${path}`,
+        ...options,
+      })
+      .toMatchObject(expected);
+  }
+
+  async expectTags(
+    path: string,
+    tags: string[],
+    options?: MetadataPollOptions
+  ): Promise<void> {
+    await expect
+      .poll(async () => (await this.getTags(path)).sort(), {
+        message: `tags of ${path}`,
+        ...options,
+      })
+      .toEqual([...tags].sort());
+  }
+
+  async expectHeadings(
+    path: string,
+    headings: string[],
+    options?: MetadataPollOptions
+  ): Promise<void> {
+    await expect
+      .poll(
+        async () => (await this.getHeadings(path)).map((h) => h.heading),
+        { message: `headings of ${path}`, ...options }
+      )
+      .toEqual(headings);
+  }
+
+  /**
+   * `path` から `target`（vault 内パス）への解決済みリンクがあること
+   */
+  async expectLinksTo(
+    path: string,
+    target: string,
+    options?: MetadataPollOptions
+  ): Promise<void> {
+    await expect
+      .poll(async () => Object.keys(await this.getResolvedLinks(path)), {
+        message: `resolved links of ${path}`,
+        ...options,
+      })
+      .toContain(target);
+  }
+
+  async expectUnresolvedLinks(
+    path: string,
+    linktexts: string[],
+    options?: MetadataPollOptions
+  ): Promise<void> {
+    await expect
+      .poll(
+        async () => Object.keys(await this.getUnresolvedLinks(path)).sort(),
+        { message: `unresolved links of ${path}`, ...options }
+      )
+      .toEqual([...linktexts].sort());
+  }
+
+  async expectBacklinks(
+    path: string,
+    sources: string[],
+    options?: MetadataPollOptions
+  ): Promise<void> {
+    await expect
+      .poll(() => this.getBacklinks(path), {
+        message: `backlinks of ${path}`,
+        ...options,
+      })
+      .toEqual([...sources].sort());
+  }
+}
@@ -1,9 +1,19 @@
 import type { JSHandle, Locator, Page } from "playwright";
 import { expect } from "playwright/test";
 import invariant from "tiny-invariant";
-import { CMD_ID_CLOSE_TAB, CMD_ID_UNDO_CLOSE_TAB } from "../constants";
-import type { VaultOptions, VaultPageTextContext } from "./types";
-import { getPluginHandleMap } from "./utils";
+import { CMD_ID_CLOSE_TAB, CMD_ID_UNDO_CLOSE_TAB } from "../constants.js";
+import type {
+  ColorScheme,
+  CommandId,
+  VaultOptions,
+  VaultPageTextContext,
+} from "./types.js";
+import { getPluginHandleMap } from "./utils.js";
+import {
+  recordVaultEvents,
+  type RecordVaultEventsOptions,
+  type VaultEventLog,
+} from "./vaultEvents.js";
 
 // Minimal ItemView interface to avoid importing from obsidian package
 interface ItemView {
@@ -15,6 +25,19 @@ export interface PageObjectConfig {
   pluginId?: string;
 }
 
+export interface ScreenshotOptions {
+  /** Additional regions to mask besides the built-in volatile ones */
+  mask?: Locator[];
+  maxDiffPixels?: number;
+  maxDiffPixelRatio?: number;
+  threshold?: number;
+}
+
+/**
+ * Window size used for screenshots so baselines match across machines
+ */
+export const SCREENSHOT_WINDOW_SIZE = { width: 1280, height: 800 };
+
 /**
  * 汎用的なObsidian Page Objectベースクラス
  */
@@ -26,7 +49,17 @@ export class ObsidianPageObject {
   protected readonly ACTIVE_EDITOR = ".cm-content";
   protected readonly TAB_HEADER_CONTAINER =
     ".mod-root .workspace-tab-header-container-inner";
-  private page: Page;
+  // スクリーンショットで常にマスクする、実行ごとに変わる領域
+  protected readonly VOLATILE_SELECTORS = [
+    ".cm-cursorLayer",
+    ".cm-cursor",
+    ".status-bar",
+    ".notice-container",
+    "time",
+    ".mod-timestamp",
+  ];
+  protected page: Page;
+  private targetWindow?: Page;
 
   constructor(
     protected vaultContext?: VaultPageTextContext,
@@ -36,6 +69,22 @@ export class ObsidianPageObject {
     invariant(this.page);
   }
 
+  /**
+   * ロケーターとキーボード操作の対象ウィンドウ（既定はメインウィンドウ）
+   */
+  protected get window(): Page {
+    return this.targetWindow ?? this.page;
+  }
+
+  /**
+   * 指定ウィンドウ（ポップアウト等）を対象にしたコピーを返す
+   * `app` の評価は引き続きメインウィンドウで行う
+   */
+  inWindow(window: Page): this {
+    const scoped = Object.create(Object.getPrototypeOf(this)) as this;
+    return Object.assign(scoped, this, { targetWindow: window });
+  }
+
   // ===== セレクタヘルパー =====
 
   protected getDatatype(viewType: string): string {
@@ -59,33 +108,33 @@ export class ObsidianPageObject {
   // ===== 基本セレクタ =====
 
   get activeLeaf(): Locator {
-    return this.page.locator(this.ACTIVE_LEAF);
+    return this.window.locator(this.ACTIVE_LEAF);
   }
 
   get activeEditor(): Locator {
-    return this.page.locator(`${this.ACTIVE_LEAF} ${this.ACTIVE_EDITOR}`);
+    return this.window.locator(`${this.ACTIVE_LEAF} ${this.ACTIVE_EDITOR}`);
   }
 
   get activeTabHeader(): Locator {
-    return this.page.locator(this.ACTIVE_TAB_HEADER);
+    return this.window.locator(this.ACTIVE_TAB_HEADER);
   }
 
   get allTabs(): Locator {
-    return this.page.locator(this.TAB_HEADER_CONTAINER);
+    return this.window.locator(this.TAB_HEADER_CONTAINER);
   }
 
   // ===== 動的セレクタ生成 =====
 
   getViewByType(viewType: string): Locator {
-    return this.page.locator(this.getActiveView(viewType));
+    return this.window.locator(this.getActiveView(viewType));
   }
 
   getTitleByType(viewType: string): Locator {
-    return this.page.locator(this.getActiveTitle(viewType));
+    return this.window.locator(this.getActiveTitle(viewType));
   }
 
   getAllViewsByType(viewType: string): Locator {
-    return this.page.locator(this.getAllViews(viewType));
+    return this.window.locator(this.getAllViews(viewType));
   }
 
   // ===== 参照の再構築 =====
@@ -103,7 +152,14 @@ export class ObsidianPageObject {
 
   // ===== 基本アクション =====
 
-  async runCommand(commandId: string): Promise<void> {
+  async runCommand(commandId: CommandId): Promise<void> {
+    await this.executeCommand(commandId);
+  }
+
+  /**
+   * 型付けされていないコマンドIDで実行（組み込みコマンド用）
+   */
+  protected async executeCommand(commandId: string): Promise<void> {
     const success = await this.page.evaluate(
       (id) => app.commands.executeCommandById(id),
       commandId
@@ -137,8 +193,8 @@ export class ObsidianPageObject {
 
   async clearActiveEditor(): Promise<void> {
     await this.activeEditor.focus();
-    await this.page.keyboard.press("Control+A");
-    await this.page.keyboard.press("Backspace");
+    await this.window.keyboard.press("Control+A");
+    await this.window.keyboard.press("Backspace");
   }
 
   // ===== ワークスペース操作 =====
@@ -157,12 +213,12 @@ export class ObsidianPageObject {
 
   async closeActiveTab(): Promise<void> {
     await this.activeLeaf.focus();
-    await this.runCommand(CMD_ID_CLOSE_TAB);
+    await this.executeCommand(CMD_ID_CLOSE_TAB);
   }
 
   async clickCloseButtonOnActiveTab(): Promise<void> {
     // アクティブなタブヘッダーの中にある .workspace-tab-header-inner-close-button を探す
-    const closeButton = this.page.locator(
+    const closeButton = this.window.locator(
       `${this.ACTIVE_TAB_HEADER} .workspace-tab-header-inner-close-button`
     );
     await expect(closeButton).toBeVisible();
@@ -170,7 +226,7 @@ export class ObsidianPageObject {
   }
 
   async undoCloseTab(): Promise<void> {
-    await this.runCommand(CMD_ID_UNDO_CLOSE_TAB);
+    await this.executeCommand(CMD_ID_UNDO_CLOSE_TAB);
   }
 
   async goBackInHistory(): Promise<void> {
@@ -220,6 +276,16 @@ export class ObsidianPageObject {
     }, path);
   }
 
+  /**
+   * `action` 実行中の vault / metadataCache イベントを記録
+   */
+  async recordVaultEvents(
+    action: () => Promise<unknown>,
+    options?: RecordVaultEventsOptions
+  ): Promise<VaultEventLog> {
+    return recordVaultEvents(this.page, action, options);
+  }
+
   // ===== データ取得 =====
 
   async getActiveFileContent(): Promise<string | undefined> {
@@ -273,6 +339,139 @@ export class ObsidianPageObject {
     );
   }
 
+  /**
+   * プラグインの `loadData()` の結果を取得
+   */
+  async getPluginData<T = Record<string, unknown>>(
+    pluginId: string
+  ): Promise<T | null> {
+    return this.page.evaluate(async (id) => {
+      const plugin = app.plugins.getPlugin(id);
+      if (!plugin) throw new Error(`Plugin not loaded: ${id}`);
+      return ((await plugin.loadData()) ?? null) as T | null;
+    }, pluginId);
+  }
+
+  /**
+   * ディスク上の data.json を読み込む（存在しない場合は null）
+   */
+  async readPluginDataFile<T = Record<string, unknown>>(
+    pluginId: string
+  ): Promise<T | null> {
+    const raw = await this.page.evaluate(async (id) => {
+      const dataPath = `${app.vault.configDir}/plugins/${id}/data.json`;
+      if (!(await app.vault.adapter.exists(dataPath))) return null;
+      return app.vault.adapter.read(dataPath);
+    }, pluginId);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  }
+
+  /**
+   * 保存済み設定が期待値を含むまで待機
+   */
+  async expectPluginData(
+    pluginId: string,
+    expected: Record<string, unknown>
+  ): Promise<void> {
+    await expect
+      .poll(() => this.readPluginDataFile(pluginId))
+      .toMatchObject(expected);
+  }
+
+  // ===== 外観 =====
+
+  async setColorScheme(scheme: ColorScheme): Promise<void> {
+    await this.page.evaluate(
+      (s) => app.changeTheme(s === "dark" ? "obsidian" : "moonstone"),
+      scheme
+    );
+    await expect(this.page.locator("body")).toHaveClass(
+      new RegExp(`\\btheme-${scheme}\\b`)
+    );
+  }
+
+  /**
+   * インストール済みテーマを適用（空文字でデフォルトテーマ）
+   */
+  async setCssTheme(themeName: string): Promise<void> {
+    await this.page.evaluate((name) => app.customCss.setTheme(name), themeName);
+  }
+
+  async setCssSnippetEnabled(
+    snippetName: string,
+    enabled: boolean
+  ): Promise<void> {
+    await this.page.evaluate(
+      ([name, on]) => app.customCss.setCssEnabledStatus(name, on),
+      [snippetName, enabled] as const
+    );
+  }
+
+  // ===== スクリーンショット =====
+
+  /**
+   * ウィンドウサイズとズームを固定
+   */
+  async prepareForScreenshot(): Promise<void> {
+    await this.window.evaluate(({ width, height }) => {
+      const remote = (window as any).electron?.remote;
+      if (!remote) return;
+      remote.getCurrentWindow().setContentSize(width, height);
+      remote.getCurrentWebContents().setZoomFactor(1);
+    }, SCREENSHOT_WINDOW_SIZE);
+    await this.window.waitForFunction(
+      ({ width, height }) =>
+        window.innerWidth === width && window.innerHeight === height,
+      SCREENSHOT_WINDOW_SIZE
+    );
+  }
+
+  /**
+   * 指定ビュータイプのアクティブなリーフのみを撮影して比較
+   */
+  async expectViewScreenshot(
+    viewType: string,
+    name: string,
+    options: ScreenshotOptions = {}
+  ): Promise<void> {
+    await this.expectLocatorScreenshot(
+      this.getViewByType(viewType),
+      name,
+      options
+    );
+  }
+
+  /**
+   * アクティブなリーフのみを撮影して比較
+   */
+  async expectLeafScreenshot(
+    name: string,
+    options: ScreenshotOptions = {}
+  ): Promise<void> {
+    await this.expectLocatorScreenshot(this.activeLeaf, name, options);
+  }
+
+  protected async expectLocatorScreenshot(
+    target: Locator,
+    name: string,
+    { mask = [], ...options }: ScreenshotOptions
+  ): Promise<void> {
+    await this.prepareForScreenshot();
+    await expect(target).toBeVisible();
+    await expect(target).toHaveScreenshot(name, {
+      ...options,
+      animations: "disabled",
+      caret: "hide",
+      scale: "css",
+      mask: [
+        ...this.VOLATILE_SELECTORS.map((selector) =>
+          this.window.locator(selector)
+        ),
+        ...mask,
+      ],
+    });
+  }
+
   // ===== 待機・同期 =====
 
   async waitForLayoutReady(): Promise<void> {
@@ -357,11 +556,11 @@ export class ObsidianPageObject {
    */
   async expectErrorState(shouldBeVisible: boolean): Promise<void> {
     if (shouldBeVisible) {
-      await expect(this.page.locator(".error-container")).toBeVisible({
+      await expect(this.window.locator(".error-container")).toBeVisible({
         timeout: 5000,
       });
     } else {
-      await expect(this.page.locator(".error-container")).not.toBeVisible();
+      await expect(this.window.locator(".error-container")).not.toBeVisible();
     }
   }
 
@@ -370,9 +569,9 @@ export class ObsidianPageObject {
    */
   async expectLoadingState(shouldBeVisible: boolean): Promise<void> {
     if (shouldBeVisible) {
-      await expect(this.page.locator(".loading-container")).toBeVisible();
+      await expect(this.window.locator(".loading-container")).toBeVisible();
     } else {
-      await expect(this.page.locator(".loading-container")).not.toBeVisible();
+      await expect(this.window.locator(".loading-container")).not.toBeVisible();
     }
   }
 
@@ -380,7 +579,7 @@ export class ObsidianPageObject {
    * タイトルバーのタイトルを取得（アクティブなリーフのみ）
    */
   async getTitleBarText(): Promise<string | null> {
-    return await this.page
+    return await this.window
       .locator(".workspace-leaf.mod-active .view-header-title")
       .textContent();
   }
@@ -389,7 +588,7 @@ export class ObsidianPageObject {
    * タブヘッダーのタイトルを取得（アクティブなリーフのみ）
    */
   async getTabHeaderText(): Promise<string | null> {
-    return await this.page
+    return await this.window
       .locator(".workspace-tab-header.mod-active .workspace-tab-header-inner")
       .textContent();
   }
@@ -410,7 +609,7 @@ export class ObsidianPageObject {
     searchText: string,
     selector = 'input[type="text"]'
   ): Promise<void> {
-    const searchInput = this.page.locator(selector);
+    const searchInput = this.window.locator(selector);
     await searchInput.fill(searchText);
     await this.page.waitForTimeout(300);
   }
@@ -419,7 +618,7 @@ export class ObsidianPageObject {
    * 検索フィルターをクリア
    */
   async clearSearchFilter(selector = 'input[type="text"]'): Promise<void> {
-    const searchInput = this.page.locator(selector);
+    const searchInput = this.window.locator(selector);
     await searchInput.clear();
     await this.page.waitForTimeout(200);
   }
@@ -449,7 +648,10 @@ export class CustomViewPageObject extends ObsidianPageObject {
     await this.activeEditor.fill(content);
   }
 
-  async openCustomView(commandId: string, content?: string): Promise<void> {
+  async openCustomView(
+    commandId: CommandId,
+    content?: string
+  ): Promise<void> {
     await this.runCommand(commandId);
     await expect(this.activeCustomView.last()).toBeVisible();
 
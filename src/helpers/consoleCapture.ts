@@ -0,0 +1,209 @@
+import log from "loglevel";
+import type {
+  BrowserContext,
+  ConsoleMessage,
+  ElectronApplication,
+  Page,
+} from "playwright";
+
+export type ConsoleEntryKind = "console" | "pageerror" | "unhandledrejection";
+
+export interface ConsoleEntry {
+  kind: ConsoleEntryKind;
+  /** Console method for `console` entries, `error` otherwise */
+  level: string;
+  text: string;
+  stack?: string;
+  /** `url:line:column` of the call site, when known */
+  location?: string;
+  /** Plugin whose code produced the entry, from its `plugin:<id>` frames */
+  pluginId?: string;
+  timestamp: number;
+}
+
+// Obsidian evaluates plugin code with `//# sourceURL=plugin:<id>`
+const PLUGIN_FRAME = /plugin:([A-Za-z0-9_.-]+)/;
+const REJECTION_MARKER = "__obsidian_e2e_unhandledrejection__";
+
+const logger = log.getLogger("consoleCapture");
+
+// Init scripts cannot be removed, so each app context gets one at most
+const contextsWithInitScript = new WeakSet<BrowserContext>();
+
+/**
+ * Collects console messages, uncaught errors and unhandled rejections from
+ * Obsidian windows into one structured, per-test buffer.
+ */
+export class ConsoleCapture {
+  readonly entries: ConsoleEntry[] = [];
+  private pages = new Set<Page>();
+
+  async attach(page: Page): Promise<void> {
+    if (this.pages.has(page)) return;
+    this.pages.add(page);
+
+    page.on("console", (msg) => this.onConsole(msg));
+    page.on("pageerror", (error) => this.onPageError(error));
+    // A reload drops the listener; reinstall it on every load
+    page.on("load", () => {
+      installRejectionListener(page).catch(() => {});
+    });
+
+    await installRejectionListener(page);
+  }
+
+  /**
+   * Captures every open and future window of the app. Unhandled rejections
+   * are reported from each document's first script, so errors thrown while
+   * plugins load are recorded too.
+   *
+   * @returns A function that stops attaching new windows
+   */
+  async attachApp(electronApp: ElectronApplication): Promise<() => void> {
+    const context = electronApp.context();
+    if (!contextsWithInitScript.has(context)) {
+      contextsWithInitScript.add(context);
+      await context.addInitScript(reportUnhandledRejections, REJECTION_MARKER);
+    }
+
+    const onWindow = (page: Page) => {
+      this.attach(page).catch((error) =>
+        logger.debug(`console capture not attached: ${error.message}`)
+      );
+    };
+    electronApp.on("window", onWindow);
+    electronApp.windows().forEach(onWindow);
+
+    return () => electronApp.off("window", onWindow);
+  }
+
+  /**
+   * Error-level entries, optionally limited to the given plugins
+   */
+  errors(pluginIds?: string[]): ConsoleEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        entry.level === "error" &&
+        (!pluginIds ||
+          (entry.pluginId !== undefined && pluginIds.includes(entry.pluginId)))
+    );
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+
+  toJSON(): ConsoleEntry[] {
+    return this.entries;
+  }
+
+  private onConsole(msg: ConsoleMessage): void {
+    const { url, lineNumber, columnNumber } = msg.location();
+    const location =
+      url && url !== "about:blank"
+        ? `${url}:${lineNumber}:${columnNumber}`
+        : undefined;
+
+    let text = msg.text();
+    let kind: ConsoleEntryKind = "console";
+    let stack: string | undefined;
+
+    if (text.startsWith(REJECTION_MARKER)) {
+      kind = "unhandledrejection";
+      stack = text.slice(REJECTION_MARKER.length).trim();
+      text = stack.split("\n")[0];
+    }
+
+    this.entries.push({
+      kind,
+      level: kind === "console" ? normalizeLevel(msg.type()) : "error",
+      text,
+      stack,
+      location,
+      pluginId: findPluginId(stack, location, text),
+      timestamp: Date.now(),
+    });
+  }
+
+  private onPageError(error: Error): void {
+    this.entries.push({
+      kind: "pageerror",
+      level: "error",
+      text: error.message,
+      stack: error.stack,
+      pluginId: findPluginId(error.stack),
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * Runs in the page: reports unhandled rejections through the console
+ */
+function reportUnhandledRejections(marker: string): void {
+  const w = window as any;
+  if (w.__obsidianE2ERejectionListener) return;
+  w.__obsidianE2ERejectionListener = true;
+  window.addEventListener("unhandledrejection", (event) => {
+    const reason = event.reason;
+    console.error(
+      marker,
+      reason instanceof Error ? reason.stack ?? reason.message : String(reason)
+    );
+  });
+}
+
+/**
+ * Installs `reportUnhandledRejections` into an already loaded page. A window
+ * that closes or navigates while this runs is not an error: there is nothing
+ * left to watch, or the next `load` installs it again.
+ */
+async function installRejectionListener(page: Page): Promise<void> {
+  try {
+    await page.evaluate(reportUnhandledRejections, REJECTION_MARKER);
+  } catch (error) {
+    if (!page.isClosed() && !isNavigationError(error)) throw error;
+  }
+}
+
+function isNavigationError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    /has been closed|Target closed/i.test(message) ||
+    message.includes("Execution context was destroyed")
+  );
+}
+
+/**
+ * Whether the entry's text matches any allowlist pattern (substring or RegExp)
+ */
+export function isAllowed(
+  entry: ConsoleEntry,
+  allowlist: Array<string | RegExp> = []
+): boolean {
+  return allowlist.some((pattern) =>
+    typeof pattern === "string"
+      ? entry.text.includes(pattern)
+      : pattern.test(entry.text)
+  );
+}
+
+export function formatConsoleEntry(entry: ConsoleEntry): string {
+  const source = entry.pluginId ? ` (${entry.pluginId})` : "";
+  const location = entry.location ? `\n    at ${entry.location}` : "";
+  return `[${entry.kind}:${entry.level}]${source} ${entry.text}${location}`;
+}
+
+function normalizeLevel(type: string): string {
+  return type === "warning" ? "warn" : type;
+}
+
+function findPluginId(
+  ...sources: Array<string | undefined>
+): string | undefined {
+  for (const source of sources) {
+    const match = source?.match(PLUGIN_FRAME);
+    if (match) return match[1];
+  }
+  return undefined;
+}
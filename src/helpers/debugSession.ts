@@ -0,0 +1,87 @@
+import type { TestInfo } from "@playwright/test";
+import chalk from "chalk";
+import log from "loglevel";
+import net from "net";
+import repl from "repl";
+import { ObsidianPageObject } from "./ObsidianPageObject.js";
+import type { VaultPageTextContext } from "./types.js";
+
+const logger = log.getLogger("debugSession");
+
+/**
+ * Debug mode is on with `OBSIDIAN_E2E_DEBUG=1` or Playwright's `--debug`
+ */
+export function isDebugMode(): boolean {
+  return !!process.env.OBSIDIAN_E2E_DEBUG || !!process.env.PWDEBUG;
+}
+
+/**
+ * Keeps the failed test's app and vault alive: opens the Playwright
+ * inspector and serves a REPL bound to `app`, the page and a page object
+ * until the inspector is resumed.
+ *
+ * Playwright workers have no stdin, so the REPL listens on a local port.
+ */
+export async function startDebugSession(
+  testInfo: TestInfo,
+  vault: VaultPageTextContext
+): Promise<void> {
+  testInfo.setTimeout(0);
+
+  const page = vault.window;
+  const app = await page.evaluateHandle(() => (window as any).app);
+  const context = {
+    app,
+    page,
+    vault,
+    electronApp: vault.electronApp,
+    pageObject: new ObsidianPageObject(vault),
+    evaluate: (fn: (arg: any) => unknown, arg?: unknown) =>
+      page.evaluate(fn, arg),
+  };
+
+  const sockets = new Set<net.Socket>();
+  const sessions = new Set<repl.REPLServer>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    const session = repl.start({
+      prompt: "obsidian> ",
+      input: socket,
+      output: socket,
+      terminal: true,
+      useGlobal: false,
+    });
+    sessions.add(session);
+    Object.assign(session.context, context);
+    session.on("exit", () => {
+      sessions.delete(session);
+      socket.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  logger.info(
+    chalk.yellow(
+      [
+        `Debug session for "${testInfo.title}"`,
+        `  vault: ${vault.vaultPath}`,
+        `  REPL:  node -e "const s=require('net').connect(${port},'127.0.0.1');process.stdin.setRawMode?.(true);process.stdin.pipe(s);s.pipe(process.stdout);s.on('close',()=>process.exit())"`,
+        `  bound: app (JSHandle), page, vault, electronApp, pageObject, evaluate(fn, arg)`,
+        `  Resume in the Playwright inspector to clean up.`,
+      ].join("\n")
+    )
+  );
+
+  try {
+    await page.pause();
+  } finally {
+    // Connected REPLs would otherwise keep the worker alive after resuming
+    server.close();
+    sessions.forEach((session) => session.close());
+    sockets.forEach((socket) => socket.destroy());
+    await app.dispose();
+  }
+}
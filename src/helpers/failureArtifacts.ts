@@ -0,0 +1,116 @@
+import type { TestInfo } from "@playwright/test";
+import fs from "fs/promises";
+import log from "loglevel";
+import path from "path";
+import type { VaultPageTextContext } from "./types.js";
+import { listFiles } from "./vaultSeed.js";
+
+const logger = log.getLogger("failureArtifacts");
+
+// Larger files are listed without their contents
+const MAX_INLINE_FILE_SIZE = 100 * 1024;
+
+interface VaultFileEntry {
+  path: string;
+  size: number;
+  content?: string;
+}
+
+/**
+ * Attaches everything needed to diagnose a failed test without rerunning it:
+ * window screenshots, the workspace layout, vault files, enabled plugins and
+ * the Obsidian version. Each part is collected independently so a crashed
+ * window does not hide the rest.
+ */
+export async function attachFailureArtifacts(
+  testInfo: TestInfo,
+  vault: VaultPageTextContext
+): Promise<void> {
+  const steps: Array<[string, () => Promise<void>]> = [
+    ["screenshots", () => attachScreenshots(testInfo, vault)],
+    ["workspace layout", () => attachWorkspaceLayout(testInfo, vault)],
+    ["vault files", () => attachVaultFiles(testInfo, vault)],
+    ["environment", () => attachEnvironment(testInfo, vault)],
+  ];
+
+  for (const [name, step] of steps) {
+    try {
+      await step();
+    } catch (error) {
+      logger.warn(`Failed to collect ${name}:`, error);
+    }
+  }
+}
+
+async function attachScreenshots(
+  testInfo: TestInfo,
+  vault: VaultPageTextContext
+): Promise<void> {
+  const windows = vault.electronApp.windows().filter((win) => !win.isClosed());
+
+  for (const [index, win] of windows.entries()) {
+    const label = win === vault.window ? "main" : `window-${index}`;
+    await testInfo.attach(`screenshot-${label}`, {
+      body: await win.screenshot(),
+      contentType: "image/png",
+    });
+  }
+}
+
+async function attachWorkspaceLayout(
+  testInfo: TestInfo,
+  vault: VaultPageTextContext
+): Promise<void> {
+  const layout = await vault.window.evaluate(() => app.workspace.getLayout());
+  await testInfo.attach("workspace.json", {
+    body: JSON.stringify(layout, null, 2),
+    contentType: "application/json",
+  });
+}
+
+async function attachVaultFiles(
+  testInfo: TestInfo,
+  vault: VaultPageTextContext
+): Promise<void> {
+  const files: VaultFileEntry[] = [];
+
+  for (const relativePath of await listFiles(vault.vaultPath)) {
+    const fullPath = path.join(vault.vaultPath, relativePath);
+    const { size } = await fs.stat(fullPath);
+    const entry: VaultFileEntry = { path: relativePath, size };
+
+    if (size <= MAX_INLINE_FILE_SIZE) {
+      const buffer = await fs.readFile(fullPath);
+      if (!buffer.includes(0)) {
+        entry.content = buffer.toString("utf-8");
+      }
+    }
+    files.push(entry);
+  }
+
+  await testInfo.attach("vault-files", {
+    body: JSON.stringify(files, null, 2),
+    contentType: "application/json",
+  });
+}
+
+async function attachEnvironment(
+  testInfo: TestInfo,
+  vault: VaultPageTextContext
+): Promise<void> {
+  const appVersion = await vault.electronApp.evaluate(({ app }) =>
+    app.getVersion()
+  );
+  const { apiVersion, plugins } = await vault.window.evaluate(() => ({
+    apiVersion: (window as any).require?.("obsidian")?.apiVersion ?? null,
+    plugins: [...app.plugins.enabledPlugins].map((id) => ({
+      id,
+      version: app.plugins.manifests[id]?.version ?? null,
+    })),
+  }));
+
+  await testInfo.attach("obsidian-environment", {
+    body: JSON.stringify({ appVersion, apiVersion, plugins }, null, 2),
+    contentType: "application/json",
+  });
+}
@@ -0,0 +1,66 @@
+import type {
+  PlaywrightWorkerOptions,
+  TestInfo,
+  TraceMode,
+  VideoMode,
+} from "@playwright/test";
+
+type TraceOption = PlaywrightWorkerOptions["trace"];
+type VideoOption = PlaywrightWorkerOptions["video"];
+
+export function traceMode(option: TraceOption): TraceMode {
+  if (typeof option === "object") return option.mode;
+  return option === "retry-with-trace" ? "on-first-retry" : option;
+}
+
+export function videoMode(option: VideoOption): VideoMode {
+  if (typeof option === "object") return option.mode;
+  return option === "retry-with-video" ? "on-first-retry" : option;
+}
+
+export function videoSize(
+  option: VideoOption
+): { width: number; height: number } | undefined {
+  return typeof option === "object" ? option.size : undefined;
+}
+
+/**
+ * Whether a trace or video should be recorded for this attempt, following
+ * Playwright's own semantics for the `trace` and `video` options
+ */
+export function shouldRecord(
+  mode: TraceMode | VideoMode,
+  testInfo: TestInfo
+): boolean {
+  switch (mode) {
+    case "off":
+      return false;
+    case "on-first-retry":
+      return testInfo.retry === 1;
+    case "on-all-retries":
+      return testInfo.retry > 0;
+    case "retain-on-first-failure":
+      return testInfo.retry === 0;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a recording made for this attempt should be kept in the report
+ */
+export function shouldRetain(
+  mode: TraceMode | VideoMode,
+  testInfo: TestInfo
+): boolean {
+  const failed = testInfo.status !== testInfo.expectedStatus;
+  switch (mode) {
+    case "off":
+      return false;
+    case "retain-on-failure":
+    case "retain-on-first-failure":
+      return failed;
+    default:
+      return true;
+  }
+}
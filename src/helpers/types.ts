@@ -1,6 +1,7 @@
 import type { ElectronApplication, JSHandle, Page } from "playwright";
-import type { ResolvedPaths } from "../config";
-import type { ObsidianTestLauncher } from "../launcher";
+import type { ObsidianE2EConfig, ResolvedPaths } from "../config.js";
+import type { ObsidianTestLauncher } from "../launcher.js";
+import type { ConsoleCapture } from "./consoleCapture.js";
 
 // Minimal Plugin interface to avoid importing from obsidian package
 export interface Plugin {
@@ -17,9 +18,20 @@ export interface TestContext {
 
 export interface VaultPageTextContext extends TestContext {
   pluginHandleMap: PluginHandleMap;
+  vaultPath: string;
   paths: ResolvedPaths;
+  /**
+   * Reloads a plugin after a rebuild, see `ObsidianTestLauncher.reloadPlugin`
+   */
+  reloadPlugin(pluginId: string): Promise<void>;
 }
 
+/**
+ * Starting content for a vault: either a fixture directory to copy, or a map
+ * of vault-relative paths to file contents.
+ */
+export type VaultSeed = string | Record<string, string | Buffer>;
+
 export interface VaultOptions {
   name?: string;
   vaultPath?: string;
@@ -27,18 +39,169 @@ export interface VaultOptions {
   useSandbox?: boolean;
   showLoggerOnNode?: boolean;
   plugins?: TestPlugin[];
+  /**
+   * Fail the test when a plugin under test logs an error, throws or leaves a
+   * rejected promise unhandled, even if its assertions passed
+   */
+  failOnConsoleError?: boolean;
+  /**
+   * Error messages ignored by `failOnConsoleError` (substring or RegExp)
+   */
+  consoleErrorAllowlist?: Array<string | RegExp>;
+  /**
+   * Files copied into the vault before it opens
+   */
+  seed?: VaultSeed;
+  /**
+   * UI language code Obsidian starts in, e.g. `"ja"` or `"de"`
+   */
+  language?: string;
+  /**
+   * Merged into `.obsidian/app.json`, e.g. `{ livePreview: false, vimMode: true }`
+   */
+  appConfig?: Record<string, unknown>;
+  /**
+   * Merged into `.obsidian/appearance.json`
+   */
+  appearance?: Record<string, unknown>;
+  /**
+   * Base color scheme
+   */
+  colorScheme?: ColorScheme;
+  /**
+   * Paths to `.css` files installed and enabled as snippets
+   */
+  cssSnippets?: string[];
+  /**
+   * Local theme directories (with `manifest.json` and `theme.css`) to install
+   */
+  themes?: string[];
+  /**
+   * Name of the installed theme to activate; `""` for the default theme
+   */
+  cssTheme?: string;
+  /**
+   * Merged into `.obsidian/hotkeys.json`, keyed by command id
+   */
+  hotkeys?: Record<string, Hotkey[]>;
+  /**
+   * Merged into `.obsidian/core-plugins.json`, e.g. `{ backlink: false }`
+   */
+  corePlugins?: Record<string, boolean>;
 }
 
+export type ColorScheme = "light" | "dark";
+
+export interface Hotkey {
+  modifiers: Array<"Mod" | "Ctrl" | "Meta" | "Shift" | "Alt">;
+  key: string;
+}
+
+/**
+ * Command IDs known to the project. Empty by default; the file generated by
+ * `obsidian-e2e commands` fills it in through declaration merging, which
+ * turns `runCommand` typos and renamed commands into compile errors.
+ */
+export interface CommandIdRegistry {}
+
+export type CommandId = [keyof CommandIdRegistry] extends [never]
+  ? string
+  : Extract<keyof CommandIdRegistry, string>;
+
 export interface TestPlugin {
   path: string;
   pluginId: string;
   useSymlink?: boolean;
+  /**
+   * Glob patterns, relative to `path`, of files to copy. Matching
+   * directories are copied recursively.
+   * Default: `["manifest.json", "main.js", "styles.css"]`
+   */
+  include?: string[];
+  /**
+   * Files that must exist in `path`, or installation fails.
+   * Default: `["manifest.json", "main.js"]`
+   */
+  required?: string[];
+  /**
+   * Written to the plugin's data.json before it loads
+   */
+  settings?: Record<string, unknown>;
+}
+
+/**
+ * When temp vaults created for a test are kept on disk after it finishes
+ */
+export type VaultRetention = "always" | "on-failure" | "never";
+
+/**
+ * Zero-based position in the editor, as in Obsidian's `EditorPosition`
+ */
+export interface EditorPosition {
+  line: number;
+  ch: number;
+}
+
+export interface EditorSelectionRange {
+  anchor: EditorPosition;
+  head: EditorPosition;
+}
+
+/**
+ * A folded range, as zero-based line numbers
+ */
+export interface FoldedRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * A CodeMirror decoration active in the editor, with document offsets
+ */
+export interface EditorDecoration {
+  from: number;
+  to: number;
+  /** CSS class of mark and line decorations */
+  className?: string;
+  /** Constructor name of the widget for widget and replace decorations */
+  widget?: string;
+  attributes?: Record<string, string>;
+}
+
+export interface MetadataHeading {
+  heading: string;
+  level: number;
+}
+
+/**
+ * A link or embed in a file, as indexed by `app.metadataCache`
+ */
+export interface MetadataLink {
+  link: string;
+  original: string;
+  displayText?: string;
+  embed: boolean;
 }
 
 export type TestFixtures = {
   obsidianSetup: ObsidianTestLauncher;
   vault: VaultPageTextContext;
   vaultOptions: VaultOptions;
+  vaultRetention: VaultRetention;
+  obsidianConsole: ConsoleCapture;
 };
 
-export type WorkerFixtures = object;
+export type WorkerFixtures = {
+  /**
+   * Overrides for the discovered `obsidian-e2e.config.ts`; set it per
+   * project in `playwright.config.ts`
+   */
+  obsidianConfig: Partial<ObsidianE2EConfig> | undefined;
+  obsidianPaths: ResolvedPaths;
+  /**
+   * Keep one Electron app per worker and reset it between tests instead of
+   * launching a fresh one for every test.
+   */
+  reuseObsidianApp: boolean;
+  workerObsidianSetup: ObsidianTestLauncher;
+};
@@ -1,5 +1,5 @@
 import type { Page } from "playwright";
-import type { Plugin, PluginHandleMap } from "./types";
+import type { Plugin, PluginHandleMap } from "./types.js";
 
 export async function getPluginHandleMap(
   page: Page,
@@ -27,3 +27,46 @@ export async function getPluginHandleMap(
     return map;
   }, plugins);
 }
+
+/**
+ * Waits until the metadata cache has indexed every file in the vault
+ */
+export async function waitForMetadataCache(
+  page: Page,
+  timeout = 10000
+): Promise<void> {
+  await page.waitForFunction(
+    () => {
+      const cache = (globalThis as any).app?.metadataCache;
+      return !!cache?.initialized && cache.inProgressTaskCount === 0;
+    },
+    undefined,
+    { timeout }
+  );
+
+  await page.evaluate(
+    () =>
+      new Promise<void>((resolve) =>
+        (globalThis as any).app.metadataCache.onCleanCache(() => resolve())
+      )
+  );
+}
+
+/**
+ * Waits until every given vault-relative path is known to `app.vault`
+ */
+export async function waitForFilesIndexed(
+  page: Page,
+  filePaths: string[],
+  timeout = 10000
+): Promise<void> {
+  await page.waitForFunction(
+    (paths) => {
+      const vault = (globalThis as any).app?.vault;
+      if (!vault) return false;
+      return paths.every((p: string) => vault.getAbstractFileByPath(p));
+    },
+    filePaths,
+    { timeout }
+  );
+}
@@ -0,0 +1,113 @@
+import fs from "fs/promises";
+import path from "path";
+import type { VaultOptions } from "./types.js";
+
+const CONFIG_FILES = {
+  appConfig: "app.json",
+  appearance: "appearance.json",
+  hotkeys: "hotkeys.json",
+  corePlugins: "core-plugins.json",
+} as const;
+
+/**
+ * Writes the config files requested in `options` into the vault's
+ * `.obsidian` folder, merging over any that already exist (e.g. from a seed).
+ *
+ * @returns Whether any file was written
+ */
+export async function writeVaultConfig(
+  vaultPath: string,
+  options: VaultOptions
+): Promise<boolean> {
+  const obsidianDir = path.join(vaultPath, ".obsidian");
+  let written = false;
+
+  for (const [key, fileName] of Object.entries(CONFIG_FILES)) {
+    const value = options[key as keyof typeof CONFIG_FILES];
+    if (!value) continue;
+
+    await fs.mkdir(obsidianDir, { recursive: true });
+    await mergeJsonFile(path.join(obsidianDir, fileName), value);
+    written = true;
+  }
+
+  const appearance = await installAppearanceAssets(obsidianDir, options);
+  if (Object.keys(appearance).length > 0) {
+    await mergeJsonFile(path.join(obsidianDir, "appearance.json"), appearance);
+    written = true;
+  }
+
+  return written;
+}
+
+/**
+ * Copies CSS snippets and themes into the config folder
+ *
+ * @returns appearance.json entries that enable them
+ */
+async function installAppearanceAssets(
+  obsidianDir: string,
+  options: VaultOptions
+): Promise<Record<string, unknown>> {
+  const appearance: Record<string, unknown> = {};
+
+  if (options.colorScheme) {
+    appearance.theme = options.colorScheme === "dark" ? "obsidian" : "moonstone";
+  }
+
+  if (options.cssSnippets?.length) {
+    const snippetsDir = path.join(obsidianDir, "snippets");
+    await fs.mkdir(snippetsDir, { recursive: true });
+
+    const names: string[] = [];
+    for (const snippetPath of options.cssSnippets) {
+      const fileName = path.basename(snippetPath);
+      await fs.copyFile(snippetPath, path.join(snippetsDir, fileName));
+      names.push(fileName.replace(/\.css$/, ""));
+    }
+    appearance.enabledCssSnippets = names;
+  }
+
+  for (const themePath of options.themes ?? []) {
+    const manifestPath = path.join(themePath, "manifest.json");
+    const manifest = await fs
+      .readFile(manifestPath, "utf-8")
+      .then((raw) => JSON.parse(raw) as { name?: string })
+      .catch(() => {
+        throw new Error(`Theme manifest.json not found: ${manifestPath}`);
+      });
+    if (!manifest.name) {
+      throw new Error(`Theme manifest has no name: ${manifestPath}`);
+    }
+
+    await fs.cp(themePath, path.join(obsidianDir, "themes", manifest.name), {
+      recursive: true,
+    });
+  }
+
+  if (options.cssTheme !== undefined) {
+    appearance.cssTheme = options.cssTheme;
+  }
+
+  return appearance;
+}
+
+/**
+ * Shallow-merges `value` into the JSON object stored at `filePath`
+ */
+export async function mergeJsonFile(
+  filePath: string,
+  value: object
+): Promise<void> {
+  const existing = await fs
+    .readFile(filePath, "utf-8")
+    .then((raw) => JSON.parse(raw) as object)
+    .catch(() => ({}));
+
+  // core-plugins.json used to be an array of enabled ids
+  const base = Array.isArray(existing)
+    ? Object.fromEntries(existing.map((id: string) => [id, true]))
+    : existing;
+
+  await fs.writeFile(filePath, JSON.stringify({ ...base, ...value }, null, 2));
+}
@@ -0,0 +1,196 @@
+import type { Page } from "playwright";
+import { waitForMetadataCache } from "./utils.js";
+
+export type VaultEventType =
+  | "create"
+  | "modify"
+  | "rename"
+  | "delete"
+  | "metadata-changed";
+
+interface VaultEventBase {
+  /** Vault-relative path after the event */
+  path: string;
+  timestamp: number;
+}
+
+export interface VaultFileEvent extends VaultEventBase {
+  type: "create" | "modify" | "delete";
+  isFolder: boolean;
+}
+
+export interface VaultRenameEvent extends VaultEventBase {
+  type: "rename";
+  oldPath: string;
+  isFolder: boolean;
+}
+
+export interface MetadataChangedEvent extends VaultEventBase {
+  type: "metadata-changed";
+}
+
+export type VaultEvent =
+  | VaultFileEvent
+  | VaultRenameEvent
+  | MetadataChangedEvent;
+
+export interface RecordVaultEventsOptions {
+  /**
+   * After the action, wait for the metadata cache and until no event has
+   * arrived for this many milliseconds (default: 300, `0` to stop at once)
+   */
+  quietPeriod?: number;
+  /** Upper bound for the settle wait (default: 10000) */
+  timeout?: number;
+}
+
+const RECORDERS_KEY = "__obsidianE2EVaultRecorders";
+
+/**
+ * Events recorded by `recordVaultEvents()`, in the order Obsidian emitted them
+ */
+export class VaultEventLog {
+  constructor(readonly events: VaultEvent[]) {}
+
+  ofType<T extends VaultEventType>(
+    type: T
+  ): Extract<VaultEvent, { type: T }>[] {
+    return this.events.filter(
+      (event): event is Extract<VaultEvent, { type: T }> => event.type === type
+    );
+  }
+
+  /**
+   * Events touching `path`, including renames from it
+   */
+  forPath(path: string): VaultEvent[] {
+    return this.events.filter(
+      (event) =>
+        event.path === path ||
+        (event.type === "rename" && event.oldPath === path)
+    );
+  }
+
+  count(type: VaultEventType, path?: string): number {
+    return this.ofType(type).filter((e) => !path || e.path === path).length;
+  }
+
+  /**
+   * Compact form for sequence assertions, e.g.
+   * `["create a.md", "rename a.md -> b.md"]`. Metadata events are left out
+   * unless `includeMetadata` is set.
+   */
+  summary(includeMetadata = false): string[] {
+    return this.events
+      .filter((event) => includeMetadata || event.type !== "metadata-changed")
+      .map((event) =>
+        event.type === "rename"
+          ? `rename ${event.oldPath} -> ${event.path}`
+          : `${event.type} ${event.path}`
+      );
+  }
+
+  toJSON(): VaultEvent[] {
+    return this.events;
+  }
+}
+
+/**
+ * Records every `app.vault` create/modify/rename/delete event and
+ * `app.metadataCache` `changed` event while `action` runs.
+ *
+ * @example
+ * ```typescript
+ * const log = await recordVaultEvents(vault.window, () =>
+ *   pageObject.runCommand("my-plugin:archive-note")
+ * );
+ * expect(log.count("modify", "Note.md")).toBe(1);
+ * expect(log.ofType("delete")).toEqual([]);
+ * ```
+ */
+export async function recordVaultEvents(
+  page: Page,
+  action: () => Promise<unknown>,
+  { quietPeriod = 300, timeout = 10000 }: RecordVaultEventsOptions = {}
+): Promise<VaultEventLog> {
+  const id = await startRecording(page);
+  try {
+    await action();
+    if (quietPeriod > 0) {
+      await waitForMetadataCache(page, timeout);
+      await page.waitForFunction(
+        ([key, recorderId, quiet]) => {
+          const recorder = (window as any)[key][recorderId];
+          return Date.now() - recorder.lastEventAt >= quiet;
+        },
+        [RECORDERS_KEY, id, quietPeriod] as const,
+        { timeout }
+      );
+    }
+    return new VaultEventLog(await stopRecording(page, id));
+  } catch (error) {
+    await stopRecording(page, id).catch(() => {});
+    throw error;
+  }
+}
+
+async function startRecording(page: Page): Promise<number> {
+  return page.evaluate((key) => {
+    const w = window as any;
+    const recorders = (w[key] ??= { nextId: 1 });
+    const recorder = {
+      events: [] as Record<string, unknown>[],
+      lastEventAt: Date.now(),
+      unsubscribe: [] as (() => void)[],
+    };
+
+    const record = (event: Record<string, unknown>) => {
+      recorder.lastEventAt = Date.now();
+      recorder.events.push({ ...event, timestamp: recorder.lastEventAt });
+    };
+    const listen = (
+      owner: typeof app.vault | typeof app.metadataCache,
+      name: string,
+      callback: (...args: any[]) => void
+    ) => {
+      const ref = (owner as any).on(name, callback);
+      recorder.unsubscribe.push(() => owner.offref(ref));
+    };
+    const isFolder = (file: any) => Array.isArray(file?.children);
+
+    for (const type of ["create", "modify", "delete"]) {
+      listen(app.vault, type, (file) =>
+        record({ type, path: file.path, isFolder: isFolder(file) })
+      );
+    }
+    listen(app.vault, "rename", (file, oldPath: string) =>
+      record({
+        type: "rename",
+        path: file.path,
+        oldPath,
+        isFolder: isFolder(file),
+      })
+    );
+    listen(app.metadataCache, "changed", (file) =>
+      record({ type: "metadata-changed", path: file.path })
+    );
+
+    const recorderId: number = recorders.nextId++;
+    recorders[recorderId] = recorder;
+    return recorderId;
+  }, RECORDERS_KEY);
+}
+
+async function stopRecording(page: Page, id: number): Promise<VaultEvent[]> {
+  return page.evaluate(
+    ([key, recorderId]) => {
+      const recorders = (window as any)[key];
+      const recorder = recorders?.[recorderId];
+      if (!recorder) return [];
+      recorder.unsubscribe.forEach((unsubscribe: () => void) => unsubscribe());
+      delete recorders[recorderId];
+      return recorder.events;
+    },
+    [RECORDERS_KEY, id] as const
+  );
+}
@@ -0,0 +1,62 @@
+import fs from "fs/promises";
+import path from "path";
+import type { VaultSeed } from "./types.js";
+
+/**
+ * Copies seed content into a vault directory.
+ *
+ * A string seed is treated as a fixture directory and copied recursively;
+ * an object seed maps vault-relative paths to file contents.
+ *
+ * @returns Vault-relative (forward-slash) paths of every file written
+ */
+export async function seedVault(
+  vaultPath: string,
+  seed: VaultSeed
+): Promise<string[]> {
+  if (typeof seed === "string") {
+    const fixtureDir = path.resolve(seed);
+    const stat = await fs.stat(fixtureDir).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new Error(`Seed fixture directory not found: ${fixtureDir}`);
+    }
+
+    await fs.cp(fixtureDir, vaultPath, { recursive: true });
+    return listFiles(fixtureDir);
+  }
+
+  const written: string[] = [];
+  for (const [relativePath, content] of Object.entries(seed)) {
+    const normalized = toVaultPath(relativePath);
+    const dest = path.join(vaultPath, normalized);
+
+    await fs.mkdir(path.dirname(dest), { recursive: true });
+    await fs.writeFile(dest, content);
+    written.push(normalized);
+  }
+  return written;
+}
+
+/**
+ * Recursively lists files under `root` as vault-relative paths
+ */
+export async function listFiles(root: string): Promise<string[]> {
+  const entries = await fs.readdir(root, {
+    recursive: true,
+    withFileTypes: true,
+  });
+
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) =>
+      toVaultPath(path.relative(root, path.join(entry.parentPath, entry.name)))
+    );
+}
+
+function toVaultPath(relativePath: string): string {
+  const normalized = relativePath.split(path.sep).join("/").replace(/^\/+/, "");
+  if (normalized.split("/").includes("..")) {
+    throw new Error(`Seed path escapes the vault: ${relativePath}`);
+  }
+  return normalized;
+}
@@ -0,0 +1,135 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+/**
+ * Point-in-time copy of a vault directory, including its config folder
+ */
+export interface VaultSnapshot {
+  vaultPath: string;
+  snapshotDir: string;
+  createdAt: number;
+}
+
+/**
+ * Paths touched while restoring a snapshot, relative to the vault root
+ */
+export interface SnapshotRestoreResult {
+  written: string[];
+  removed: string[];
+  /** Whether anything Obsidian only reads at startup has changed */
+  configChanged: boolean;
+}
+
+// Rewritten by the workspace on every layout change; restoring them should
+// not force a reload on its own.
+const VOLATILE_CONFIG_FILES = ["workspace.json", "workspace-mobile.json"];
+
+export async function createVaultSnapshot(
+  vaultPath: string
+): Promise<VaultSnapshot> {
+  const snapshotDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), "obsidian-e2e-snapshot-")
+  );
+  await fs.cp(vaultPath, snapshotDir, { recursive: true });
+
+  return { vaultPath, snapshotDir, createdAt: Date.now() };
+}
+
+/**
+ * Makes the vault directory match the snapshot, touching only paths
+ * that differ
+ */
+export async function restoreVaultSnapshot(
+  snapshot: VaultSnapshot,
+  configDir = ".obsidian"
+): Promise<SnapshotRestoreResult> {
+  const current = await listEntries(snapshot.vaultPath);
+  const saved = await listEntries(snapshot.snapshotDir);
+
+  const written: string[] = [];
+  const removed: string[] = [];
+
+  for (const file of current.files) {
+    if (!saved.files.has(file)) {
+      await fs.rm(path.join(snapshot.vaultPath, file), { force: true });
+      removed.push(file);
+    }
+  }
+
+  // Deepest first so parents are empty by the time they are removed
+  const staleDirs = [...current.dirs]
+    .filter((dir) => !saved.dirs.has(dir))
+    .sort((a, b) => b.length - a.length);
+  for (const dir of staleDirs) {
+    await fs.rm(path.join(snapshot.vaultPath, dir), {
+      recursive: true,
+      force: true,
+    });
+    removed.push(dir);
+  }
+
+  for (const dir of saved.dirs) {
+    if (!current.dirs.has(dir)) {
+      await fs.mkdir(path.join(snapshot.vaultPath, dir), { recursive: true });
+      written.push(dir);
+    }
+  }
+
+  for (const file of saved.files) {
+    const src = path.join(snapshot.snapshotDir, file);
+    const dest = path.join(snapshot.vaultPath, file);
+
+    if (current.files.has(file)) {
+      const [before, after] = await Promise.all([
+        fs.readFile(dest),
+        fs.readFile(src),
+      ]);
+      if (before.equals(after)) continue;
+    }
+
+    await fs.mkdir(path.dirname(dest), { recursive: true });
+    await fs.copyFile(src, dest);
+    written.push(file);
+  }
+
+  const configChanged = [...written, ...removed].some((p) => {
+    if (!p.startsWith(`${configDir}/`)) return false;
+    return !VOLATILE_CONFIG_FILES.includes(p.slice(configDir.length + 1));
+  });
+
+  return { written, removed, configChanged };
+}
+
+export async function disposeVaultSnapshot(
+  snapshot: VaultSnapshot
+): Promise<void> {
+  await fs.rm(snapshot.snapshotDir, { recursive: true, force: true });
+}
+
+async function listEntries(
+  root: string
+): Promise<{ files: Set<string>; dirs: Set<string> }> {
+  const entries = await fs.readdir(root, {
+    recursive: true,
+    withFileTypes: true,
+  });
+
+  const files = new Set<string>();
+  const dirs = new Set<string>();
+
+  for (const entry of entries) {
+    const relative = path
+      .relative(root, path.join(entry.parentPath, entry.name))
+      .split(path.sep)
+      .join("/");
+
+    if (entry.isDirectory()) {
+      dirs.add(relative);
+    } else if (entry.isFile()) {
+      files.add(relative);
+    }
+  }
+
+  return { files, dirs };
+}
@@ -16,11 +16,36 @@
  * ```
  */
 
-import { test as base } from "@playwright/test";
+import {
+  test as base,
+  type TestInfo,
+  type TraceMode,
+  type VideoMode,
+} from "@playwright/test";
 import log from "loglevel";
-import { getResolvedPaths } from "./constants";
-import type { TestFixtures, WorkerFixtures } from "./helpers/types";
-import { ObsidianTestLauncher } from "./launcher";
+import type { Video } from "playwright";
+import { loadE2EConfig } from "./configFile.js";
+import type {
+  TestFixtures,
+  VaultOptions,
+  VaultRetention,
+  WorkerFixtures,
+} from "./helpers/types.js";
+import {
+  ConsoleCapture,
+  formatConsoleEntry,
+  isAllowed,
+} from "./helpers/consoleCapture.js";
+import { isDebugMode, startDebugSession } from "./helpers/debugSession.js";
+import { attachFailureArtifacts } from "./helpers/failureArtifacts.js";
+import {
+  shouldRecord,
+  shouldRetain,
+  traceMode,
+  videoMode,
+  videoSize,
+} from "./helpers/recording.js";
+import { ObsidianTestLauncher } from "./launcher.js";
 
 const logger = log.getLogger("obsidianSetup");
 
@@ -29,26 +54,103 @@ const logger = log.getLogger("obsidianSetup");
 // ===================================================================
 
 export {
+  type ColorScheme,
+  type CommandId,
+  type CommandIdRegistry,
+  type EditorDecoration,
+  type EditorPosition,
+  type EditorSelectionRange,
+  type FoldedRange,
+  type Hotkey,
+  type MetadataHeading,
+  type MetadataLink,
   type TestContext,
   type TestFixtures,
   type TestPlugin,
   type VaultOptions,
   type VaultPageTextContext,
+  type VaultRetention,
+  type VaultSeed,
   type WorkerFixtures,
-} from "./helpers/types";
+} from "./helpers/types.js";
 
-export { IPCBridge } from "./helpers/IPCBridge";
+export { IPCBridge } from "./helpers/IPCBridge.js";
 
-export * from "./helpers/utils";
+export {
+  ConsoleCapture,
+  type ConsoleEntry,
+  type ConsoleEntryKind,
+} from "./helpers/consoleCapture.js";
+
+export {
+  CustomViewPageObject,
+  ObsidianPageObject,
+  SCREENSHOT_WINDOW_SIZE,
+  type PageObjectConfig,
+  type ScreenshotOptions,
+} from "./helpers/ObsidianPageObject.js";
+
+export { EditorPageObject } from "./helpers/EditorPageObject.js";
+
+export {
+  MetadataPageObject,
+  type MetadataPollOptions,
+} from "./helpers/MetadataPageObject.js";
+
+export {
+  recordVaultEvents,
+  VaultEventLog,
+  type MetadataChangedEvent,
+  type RecordVaultEventsOptions,
+  type VaultEvent,
+  type VaultEventType,
+  type VaultFileEvent,
+  type VaultRenameEvent,
+} from "./helpers/vaultEvents.js";
+
+export {
+  type SnapshotRestoreResult,
+  type VaultSnapshot,
+} from "./helpers/vaultSnapshot.js";
+
+export * from "./helpers/utils.js";
 
 export {
   createLaunchOptions,
   resolveConfig,
   type ObsidianE2EConfig,
   type ResolvedPaths,
-} from "./config";
+} from "./config.js";
+
+export {
+  CONFIG_FILE_NAMES,
+  defineE2EConfig,
+  findConfigFile,
+  loadE2EConfig,
+  type LoadConfigOptions,
+  type ObsidianE2EConfigFile,
+} from "./configFile.js";
+
+export {
+  defineObsidianConfig,
+  type ObsidianConfigOptions,
+  type ObsidianPlaywrightConfig,
+} from "./playwrightConfig.js";
+
+export {
+  compareVersions,
+  createVersionProjects,
+  ensureObsidianVersion,
+  type VersionProjectsOptions,
+} from "./versions.js";
+
+export {
+  createDefaultTestConfig,
+  SANDBOX_VAULT_NAME,
+} from "./constants.js";
 
 export { ObsidianTestLauncher as ObsidianTestSetup };
+export type { LaunchOptions } from "./launcher.js";
 
 // ===================================================================
 // Test Setup Factory
@@ -79,10 +181,10 @@ export { ObsidianTestLauncher as ObsidianTestSetup };
  * ```
  */
 
-import { resolveConfig } from "./config";
+import { resolveConfig } from "./config.js";
 
 export function createTestSetup(
-  config: import("./config").ObsidianE2EConfig
+  config: import("./config.js").ObsidianE2EConfig
 ): ObsidianTestLauncher {
   const paths = resolveConfig(config);
   return new ObsidianTestLauncher(paths);
@@ -99,9 +201,9 @@ function setupBrowserConsoleLogging(window: any): void {
 
     if (text.length > 500) {
       console.log(
-        `🖥️ BROWSER [${type.toUpperCase()}]: [長文のため省略: ${
+        `🖥️ BROWSER [${type.toUpperCase()}]: [truncated: ${
           text.length
-        }文字]`
+        } chars]`
       );
       return;
     }
@@ -142,6 +244,26 @@ function setupBrowserConsoleLogging(window: any): void {
   });
 }
 
+function assertNoPluginErrors(
+  capture: ConsoleCapture,
+  vaultOptions: VaultOptions
+): void {
+  if (!vaultOptions.failOnConsoleError) return;
+
+  const pluginIds = (vaultOptions.plugins ?? []).map((p) => p.pluginId);
+  const errors = capture
+    .errors(pluginIds)
+    .filter((entry) => !isAllowed(entry, vaultOptions.consoleErrorAllowlist));
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Plugin errors were logged during the test:\n${errors
+        .map(formatConsoleEntry)
+        .join("\n")}`
+    );
+  }
+}
+
 // ===================================================================
 // Test Error Handling
 // ===================================================================
@@ -177,6 +299,75 @@ function handleTestError(testInfo: any): void {
   }
 }
 
+// ===================================================================
+// Vault Retention
+// ===================================================================
+
+function shouldKeepVaults(
+  testInfo: TestInfo,
+  retention: VaultRetention
+): boolean {
+  if (retention === "always") return true;
+  if (retention === "never") return false;
+  return testInfo.status !== testInfo.expectedStatus;
+}
+
+async function attachKeptVaults(
+  testInfo: TestInfo,
+  vaultPaths: string[]
+): Promise<void> {
+  if (vaultPaths.length === 0) return;
+
+  await testInfo.attach("obsidian-vaults", {
+    body: vaultPaths.join("\n"),
+    contentType: "text/plain",
+  });
+}
+
+// ===================================================================
+// Tracing & Video
+// ===================================================================
+
+async function saveTrace(
+  setup: ObsidianTestLauncher,
+  testInfo: TestInfo,
+  mode: TraceMode
+): Promise<void> {
+  if (!shouldRetain(mode, testInfo)) {
+    await setup.stopTracing();
+    return;
+  }
+
+  // Attachments named "trace" are linked to the trace viewer in the report
+  const tracePath = testInfo.outputPath("trace.zip");
+  if (await setup.stopTracing(tracePath)) {
+    await testInfo.attach("trace", {
+      path: tracePath,
+      contentType: "application/zip",
+    });
+  }
+}
+
+async function saveVideos(
+  videos: Video[],
+  testInfo: TestInfo,
+  mode: VideoMode
+): Promise<void> {
+  const retain = shouldRecord(mode, testInfo) && shouldRetain(mode, testInfo);
+
+  for (const [index, video] of videos.entries()) {
+    if (retain) {
+      const videoPath = testInfo.outputPath(`video-${index}.webm`);
+      await video.saveAs(videoPath);
+      await testInfo.attach("video", {
+        path: videoPath,
+        contentType: "video/webm",
+      });
+    }
+    await video.delete();
+  }
+}
+
 // ===================================================================
 // Vault Setup Helpers
 // ===================================================================
@@ -219,13 +410,107 @@ export const test = base.extend<TestFixtures, WorkerFixtures>({
     });
   },
 
-  obsidianSetup: async ({}, use, testInfo) => {
-    const paths = getResolvedPaths();
-    const setup = new ObsidianTestLauncher(paths);
+  obsidianConfig: [undefined, { scope: "worker", option: true }],
+
+  obsidianPaths: [
+    async ({ obsidianConfig }, use, workerInfo) => {
+      const paths = await loadE2EConfig({
+        projectName: workerInfo.project.name,
+        overrides: obsidianConfig,
+      });
+      logger.debug("resolved paths", paths);
+      await use(paths);
+    },
+    { scope: "worker" },
+  ],
+
+  reuseObsidianApp: [false, { scope: "worker", option: true }],
+
+  workerObsidianSetup: [
+    async ({ obsidianPaths }, use) => {
+      // Launched lazily by the first test that opts into reuse.
+      const setup = new ObsidianTestLauncher(obsidianPaths);
+
+      await use(setup);
+
+      logger.debug("clean up worker app");
+      await setup.cleanup();
+    },
+    { scope: "worker" },
+  ],
+
+  vaultRetention: ["on-failure", { option: true }],
+
+  obsidianSetup: async (
+    {
+      obsidianPaths,
+      reuseObsidianApp,
+      workerObsidianSetup,
+      vaultRetention,
+      trace,
+      video,
+    },
+    use,
+    testInfo
+  ) => {
+    const recordTrace = shouldRecord(traceMode(trace), testInfo);
+    const recordVideo = {
+      dir: testInfo.outputPath("videos"),
+      size: videoSize(video),
+    };
+
+    if (reuseObsidianApp) {
+      if (!workerObsidianSetup.isLaunched()) {
+        logger.debug("launch worker app");
+        // Video is decided once per worker; retention is still per test
+        await workerObsidianSetup.launch({
+          recordVideo: videoMode(video) !== "off" ? recordVideo : undefined,
+        });
+      }
+      if (recordTrace) await workerObsidianSetup.startTracing();
+
+      await use(workerObsidianSetup);
+
+      handleTestError(testInfo);
+      let teardownFailed = false;
+      try {
+        if (recordTrace) {
+          await saveTrace(workerObsidianSetup, testInfo, traceMode(trace));
+        }
+        // Reset before releasing so no window still has the vaults open
+        await workerObsidianSetup.resetForNextTest();
+      } catch (err) {
+        // The test fails with this error, so its vaults count as failed ones
+        teardownFailed = true;
+        throw err;
+      } finally {
+        const keptVaults = await workerObsidianSetup.releaseVaults(
+          vaultRetention !== "never" &&
+            (teardownFailed || shouldKeepVaults(testInfo, vaultRetention))
+        );
+        try {
+          await saveVideos(
+            workerObsidianSetup.takeFinishedVideos(),
+            testInfo,
+            videoMode(video)
+          );
+        } finally {
+          await attachKeptVaults(testInfo, keptVaults);
+        }
+      }
+      return;
+    }
+
+    const setup = new ObsidianTestLauncher(obsidianPaths);
 
     try {
       logger.debug("launch");
-      await setup.launch();
+      await setup.launch({
+        recordVideo: shouldRecord(videoMode(video), testInfo)
+          ? recordVideo
+          : undefined,
+      });
+      if (recordTrace) await setup.startTracing();
       logger.debug("done");
       logger.debug("enter tests");
 
@@ -234,23 +519,77 @@ export const test = base.extend<TestFixtures, WorkerFixtures>({
       handleTestError(testInfo);
     } catch (err: any) {
       logger.error(`Error during fixture setup: ${err.message || err}`);
-      if (!process.env.CI) {
-        // await setup.getCurrentPage()?.pause();
+      const page = setup.getCurrentPage();
+      if (isDebugMode() && page) {
+        testInfo.setTimeout(0);
+        await page.pause();
       }
       throw err;
     } finally {
-      logger.debug("clean up app");
-      await setup.cleanup();
-      logger.debug("ok");
+      // Trace and video errors must not skip cleanup or hide the test error
+      try {
+        if (recordTrace) {
+          await saveTrace(setup, testInfo, traceMode(trace));
+        }
+      } finally {
+        logger.debug("clean up app");
+        const keptVaults = await setup.cleanup({
+          keepVaults: shouldKeepVaults(testInfo, vaultRetention),
+        });
+        try {
+          await saveVideos(
+            setup.takeFinishedVideos(),
+            testInfo,
+            videoMode(video)
+          );
+        } finally {
+          await attachKeptVaults(testInfo, keptVaults);
+        }
+        logger.debug("ok");
+      }
+    }
+  },
+
+  obsidianConsole: async ({}, use, testInfo) => {
+    const capture = new ConsoleCapture();
+
+    await use(capture);
+
+    if (capture.entries.length > 0) {
+      await testInfo.attach("console-log", {
+        body: JSON.stringify(capture, null, 2),
+        contentType: "application/json",
+      });
     }
   },
 
-  vault: async ({ obsidianSetup, vaultOptions }, use) => {
+  vault: async (
+    { obsidianSetup, vaultOptions, obsidianConsole },
+    use,
+    testInfo
+  ) => {
+    // Attach before the vault opens so plugin load errors are captured
+    const stopCapture = await obsidianConsole.attachApp(
+      obsidianSetup.getElectronApp()
+    );
     const context = await setupVault(obsidianSetup, vaultOptions);
 
     logger.debug("enter test");
     await use(context);
     logger.debug("done");
+
+    stopCapture();
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      logger.debug("collect failure artifacts");
+      await attachFailureArtifacts(testInfo, context);
+
+      if (isDebugMode()) {
+        await startDebugSession(testInfo, context);
+      }
+    }
+
+    assertNoPluginErrors(obsidianConsole, vaultOptions);
   },
 });
 
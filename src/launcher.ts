@@ -3,9 +3,10 @@ import chalk from "chalk";
 import type { WebContents } from "electron";
 import {
   copyFileSync,
+  cpSync,
   existsSync,
+  globSync,
   mkdirSync,
-  readdirSync,
   rmSync,
   statSync,
   symlinkSync,
@@ -15,26 +16,58 @@ import fs from "fs/promises";
 import log from "loglevel";
 import os from "os";
 import path from "path";
-import type { ElectronApplication, Page } from "playwright";
+import type { ElectronApplication, Page, Video } from "playwright";
 import { _electron as electron } from "playwright/test";
-import type { ResolvedPaths } from "./config";
-import { createLaunchOptions } from "./config";
-import { IPCBridge } from "./helpers/IPCBridge";
-import type { TestContext, VaultPageTextContext } from "./helpers/types";
-import { type VaultOptions } from "./helpers/types";
-import { getPluginHandleMap } from "./helpers/utils";
+import type { ResolvedPaths } from "./config.js";
+import { createLaunchOptions } from "./config.js";
+import { IPCBridge } from "./helpers/IPCBridge.js";
+import type {
+  TestContext,
+  TestPlugin,
+  VaultPageTextContext,
+} from "./helpers/types.js";
+import { type VaultOptions } from "./helpers/types.js";
+import {
+  getPluginHandleMap,
+  waitForFilesIndexed,
+  waitForMetadataCache,
+} from "./helpers/utils.js";
+import { writeVaultConfig } from "./helpers/vaultConfig.js";
+import { ensureObsidianVersion } from "./versions.js";
+import { seedVault } from "./helpers/vaultSeed.js";
+import {
+  createVaultSnapshot,
+  disposeVaultSnapshot,
+  restoreVaultSnapshot,
+  type VaultSnapshot,
+} from "./helpers/vaultSnapshot.js";
 
 const logger = log.getLogger("ObsidianTestLauncher");
 
 const SANDBOX_VAULT_NAME = "Obsidian Sandbox";
 
-interface LaunchOptions {}
+const DEFAULT_PLUGIN_FILES = ["manifest.json", "main.js", "styles.css"];
+export const REQUIRED_PLUGIN_FILES = ["manifest.json", "main.js"];
+
+export interface LaunchOptions {
+  /**
+   * Record a video of every window into `dir`
+   */
+  recordVideo?: { dir: string; size?: { width: number; height: number } };
+}
 
 export class ObsidianTestLauncher {
   private electronApp?: ElectronApplication;
   private tempUserDataDir?: string;
   private ipc?: IPCBridge;
   private paths: ResolvedPaths;
+  private snapshots: VaultSnapshot[] = [];
+  private createdVaults: string[] = [];
+  private vaultPlugins = new Map<string, TestPlugin[]>();
+  private mainWindow?: Page;
+  private recordings: Array<{ page: Page; video: Video }> = [];
+  private tracing = false;
+  private popouts = new Map<Page, Page[]>();
 
   constructor(paths: ResolvedPaths) {
     this.paths = paths;
@@ -44,14 +77,42 @@ export class ObsidianTestLauncher {
   // Launch & Cleanup
   // ===================================================================
 
-  async launch(
-    options: LaunchOptions = { useUTF8Encoding: true }
-  ): Promise<void> {
+  async launch(options: LaunchOptions = {}): Promise<void> {
+    try {
+      await this.startApp(options);
+    } catch (error) {
+      await this.abortLaunch();
+      throw error;
+    }
+  }
+
+  /**
+   * Closes a partially launched app so `isLaunched()` stays false and the
+   * next `launch()` starts over instead of orphaning the first Electron
+   */
+  private async abortLaunch(): Promise<void> {
+    const electronApp = this.electronApp;
+    this.electronApp = undefined;
+    this.ipc = undefined;
+    this.mainWindow = undefined;
+    this.tracing = false;
+
+    await electronApp?.close().catch((error) => {
+      logger.warn(`Failed to close Electron after a failed launch: ${error}`);
+    });
+    if (this.tempUserDataDir) {
+      await fs.rm(this.tempUserDataDir, { recursive: true, force: true });
+      this.tempUserDataDir = undefined;
+    }
+  }
+
+  private async startApp(options: LaunchOptions): Promise<void> {
     this.tempUserDataDir = await fs.mkdtemp(
       path.join(os.tmpdir(), "obsidian-e2e-")
     );
     logger.debug(`Using temporary user data dir: ${this.tempUserDataDir}`);
 
+    await ensureObsidianVersion(this.paths);
     const baseLaunchOptions = createLaunchOptions(this.paths);
     const launchOptions = {
       ...baseLaunchOptions,
@@ -64,9 +125,14 @@ export class ObsidianTestLauncher {
         PLAYWRIGHT: "true",
         CI: process.env.CI || "false",
       },
+      recordVideo: options.recordVideo,
     };
 
     this.electronApp = await electron.launch(launchOptions);
+    if (options.recordVideo) {
+      this.electronApp.on("window", (win) => this.trackVideo(win));
+      this.electronApp.windows().forEach((win) => this.trackVideo(win));
+    }
     let page = await this.electronApp.waitForEvent("window");
 
     await page.evaluate(() => {
@@ -83,27 +149,169 @@ export class ObsidianTestLauncher {
 
     const currentPage = await this.ensureSingleWindow();
     await this.waitForStarterReady(currentPage);
+    this.mainWindow = currentPage;
     logger.debug("init start page");
 
     this.ipc = new IPCBridge(this);
   }
 
-  async cleanup(): Promise<void> {
+  isLaunched(): boolean {
+    return !!this.electronApp && !!this.ipc;
+  }
+
+  /**
+   * Brings a reused app back to the state `launch()` leaves it in:
+   * a single starter window, no registered vaults and empty storage.
+   * Vaults themselves are recreated by the next `openVault()` call.
+   */
+  async resetForNextTest(): Promise<void> {
+    if (!this.electronApp || !this.ipc) {
+      throw new Error("Setup not initialized. Call launch() first.");
+    }
+
+    logger.debug("reset app for next test");
+
+    const openWindows = this.electronApp
+      .windows()
+      .filter((win) => !win.isClosed());
+    const starter = openWindows.find((win) => win.url().includes("starter"));
+
+    if (starter) {
+      await this.closeAllExcept(starter);
+    } else {
+      await this.openStarter();
+    }
+
+    await this.forgetVaults();
+    await this.clearData();
+
+    const page = await this.ensureSingleWindow();
+    await page.reload({ waitUntil: "domcontentloaded" });
+    await this.waitForStarterReady(page);
+
+    await this.assertCleanState();
+    logger.debug("app reset done");
+  }
+
+  /**
+   * Throws if anything from a previous test is still visible to the app.
+   */
+  async assertCleanState(): Promise<void> {
+    if (!this.electronApp || !this.ipc) {
+      throw new Error("Setup not initialized. Call launch() first.");
+    }
+
+    const leaks: string[] = [];
+
+    const openWindows = this.electronApp
+      .windows()
+      .filter((win) => !win.isClosed());
+    if (openWindows.length !== 1) {
+      leaks.push(`expected 1 window, found ${openWindows.length}`);
+    }
+
+    const page = openWindows[0];
+    if (page && !page.url().includes("starter")) {
+      leaks.push(`expected starter window, found ${page.url()}`);
+    }
+
+    if (page) {
+      const storage = await page.evaluate(async () => ({
+        localStorageKeys: Object.keys(localStorage),
+        databases: (await indexedDB.databases()).map((db) => db.name ?? ""),
+      }));
+      if (storage.localStorageKeys.length > 0) {
+        leaks.push(`localStorage keys: ${storage.localStorageKeys.join(", ")}`);
+      }
+      if (storage.databases.length > 0) {
+        leaks.push(`IndexedDB databases: ${storage.databases.join(", ")}`);
+      }
+    }
+
+    const vaultList = await this.ipc.getVaultList();
+    const registered = Object.values(vaultList?.vault ?? {});
+    if (registered.length > 0) {
+      leaks.push(
+        `registered vaults: ${registered.map((v) => v.path).join(", ")}`
+      );
+    }
+
+    if (leaks.length > 0) {
+      throw new Error(`State leaked between tests:\n- ${leaks.join("\n- ")}`);
+    }
+  }
+
+  /**
+   * Closes the app and removes everything it created on disk.
+   *
+   * @returns Paths of temp vaults kept because of `keepVaults`
+   */
+  async cleanup(options: { keepVaults?: boolean } = {}): Promise<string[]> {
     if (this.electronApp) {
       await Promise.all(this.electronApp.windows().map((win) => win.close()));
       await this.electronApp.close();
     }
+    const keptVaults = await this.releaseVaults(options.keepVaults);
+    this.vaultPlugins.clear();
     if (this.tempUserDataDir) {
       logger.debug(`Removing temp user data dir: ${this.tempUserDataDir}`);
       await fs.rm(this.tempUserDataDir, { recursive: true, force: true });
     }
     logger.debug("[ObsidianTestSetup] cleaned All");
+    return keptVaults;
+  }
+
+  /**
+   * Stops tracking the temp vaults and snapshots created so far, deleting
+   * them unless `keep` is set. Call only once the vaults are no longer open.
+   *
+   * @returns Paths of the vaults that were kept
+   */
+  async releaseVaults(keep = false): Promise<string[]> {
+    const vaults = this.createdVaults.splice(0);
+    const snapshots = this.snapshots.splice(0);
+
+    if (keep) {
+      vaults.forEach((v) => logger.info(chalk.yellow(`Keeping vault: ${v}`)));
+      snapshots.forEach((s) =>
+        logger.info(chalk.yellow(`Keeping snapshot: ${s.snapshotDir}`))
+      );
+      return vaults;
+    }
+
+    for (const snapshot of snapshots) {
+      await disposeVaultSnapshot(snapshot);
+    }
+    for (const vaultPath of vaults) {
+      logger.debug(`Removing temp vault: ${vaultPath}`);
+      await fs.rm(vaultPath, { recursive: true, force: true });
+    }
+    return [];
+  }
+
+  getCreatedVaults(): string[] {
+    return [...this.createdVaults];
   }
 
   getCurrentPage() {
+    if (this.mainWindow && !this.mainWindow.isClosed()) {
+      return this.mainWindow;
+    }
     return this.electronApp?.windows()[0];
   }
 
+  /**
+   * The starter or vault window IPC calls go through. Unlike
+   * `ensureSingleWindow()` this leaves popout windows open.
+   */
+  async getMainWindow(): Promise<Page> {
+    if (this.mainWindow && !this.mainWindow.isClosed()) {
+      return this.mainWindow;
+    }
+    this.mainWindow = await this.ensureSingleWindow();
+    return this.mainWindow;
+  }
+
   getElectronApp(): ElectronApplication {
     if (!this.electronApp) {
       throw new Error("ElectronApp not initialized");
@@ -111,6 +319,48 @@ export class ObsidianTestLauncher {
     return this.electronApp;
   }
 
+  // ===================================================================
+  // Tracing & Video
+  // ===================================================================
+
+  async startTracing(): Promise<void> {
+    if (this.tracing) return;
+    await this.getElectronApp().context().tracing.start({
+      screenshots: true,
+      snapshots: true,
+      sources: true,
+    });
+    this.tracing = true;
+  }
+
+  /**
+   * Stops tracing, writing the trace to `tracePath` if given. Returns whether
+   * a trace was written (false when tracing never started).
+   */
+  async stopTracing(tracePath?: string): Promise<boolean> {
+    if (!this.tracing) return false;
+    this.tracing = false;
+    await this.getElectronApp().context().tracing.stop({ path: tracePath });
+    return tracePath !== undefined;
+  }
+
+  /**
+   * Hands over videos of windows that have closed since the last call.
+   * Videos of open windows are still being recorded and stay tracked.
+   */
+  takeFinishedVideos(): Video[] {
+    const finished = this.recordings.filter(({ page }) => page.isClosed());
+    this.recordings = this.recordings.filter(({ page }) => !page.isClosed());
+    return finished.map(({ video }) => video);
+  }
+
+  private trackVideo(page: Page): void {
+    const video = page.video();
+    if (video && !this.recordings.some((r) => r.page === page)) {
+      this.recordings.push({ page, video });
+    }
+  }
+
   // ===================================================================
   // Vault Operations
   // ===================================================================
@@ -124,6 +374,8 @@ export class ObsidianTestLauncher {
 
     let vaultPath: string;
     let page: Page;
+    let seededPaths: string[] = [];
+    let needsReload = false;
 
     const shouldUseSandbox = options.useSandbox && !process.env.CI;
 
@@ -135,6 +387,14 @@ export class ObsidianTestLauncher {
       );
       vaultPath = await this.ipc.getSandboxPath();
       logger.debug(chalk.green("Sandbox vault opened at:", vaultPath));
+
+      // The sandbox path is only known once it is open, so seed it live
+      if (options.seed) {
+        seededPaths = await seedVault(vaultPath, options.seed);
+        logger.debug(`Seeded ${seededPaths.length} files into sandbox`);
+      }
+
+      needsReload = await writeVaultConfig(vaultPath, options);
     } else {
       logger.debug("Opening normal vault...");
       if (options.vaultPath) {
@@ -146,6 +406,7 @@ export class ObsidianTestLauncher {
           "options.name and options.path not specified, create temp dir"
         );
         vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), "obsidian-e2e-"));
+        this.createdVaults.push(vaultPath);
         logger.debug("temp dir created:", vaultPath);
       }
 
@@ -153,6 +414,16 @@ export class ObsidianTestLauncher {
         rmSync(vaultPath, { recursive: true });
       }
 
+      if (options.seed) {
+        await fs.mkdir(vaultPath, { recursive: true });
+        seededPaths = await seedVault(vaultPath, options.seed);
+        logger.debug(`Seeded ${seededPaths.length} files into ${vaultPath}`);
+      }
+
+      if (await writeVaultConfig(vaultPath, options)) {
+        logger.debug("Wrote vault config files");
+      }
+
       page = await this.executeActionAndWaitForNewWindow(async () => {
         const result = await this.ipc!.openVault(
           vaultPath,
@@ -165,10 +436,21 @@ export class ObsidianTestLauncher {
       logger.debug("Normal vault opened:", vaultPath);
     }
 
+    if (options.language) {
+      logger.debug(`Setting UI language: ${options.language}`);
+      // Obsidian reads the UI language from localStorage on startup
+      await page.evaluate(
+        (lang) => window.localStorage.setItem("language", lang),
+        options.language
+      );
+      needsReload = true;
+    }
+
     // Install and Enable Plugins
     if (options.plugins && options.plugins.length > 0) {
       logger.debug("Installing plugins...");
       await this.installPlugins(vaultPath, options.plugins);
+      this.vaultPlugins.set(vaultPath, options.plugins);
       logger.debug("Plugins installed.");
 
       logger.debug("Enabling plugins...");
@@ -177,13 +459,40 @@ export class ObsidianTestLauncher {
         options.plugins.map((p) => p.pluginId)
       );
       logger.debug("Plugins enabled.");
+      needsReload = true;
+    }
 
-      logger.debug(chalk.blue("Reloading vault to apply plugin changes..."));
+    if (needsReload) {
+      logger.debug(chalk.blue("Reloading vault to apply config changes..."));
       await page.reload();
       await this.waitForVaultReady(page);
       logger.debug(chalk.blue("Vault reloaded."));
     }
 
+    if (options.language) {
+      const language = await page.evaluate(
+        () => (window as any).i18next?.language ?? null
+      );
+      if (language !== options.language) {
+        throw new Error(
+          `Obsidian started in "${language}" instead of "${options.language}". Is it a supported language code?`
+        );
+      }
+    }
+
+    if (options.seed) {
+      logger.debug("Waiting for seeded files to be indexed...");
+      await waitForFilesIndexed(
+        page,
+        // Obsidian does not index dot-prefixed files or folders
+        seededPaths.filter(
+          (p) => !p.split("/").some((segment) => segment.startsWith("."))
+        )
+      );
+      await waitForMetadataCache(page);
+      logger.debug("Seeded files indexed.");
+    }
+
     const vaultName = await page.evaluate(() => app?.vault?.getName());
     logger.debug("Vault name:", vaultName);
     const pluginHandleMap = await getPluginHandleMap(
@@ -191,13 +500,82 @@ export class ObsidianTestLauncher {
       options.plugins || []
     );
 
-    return {
+    const context: VaultPageTextContext = {
       electronApp: this.electronApp,
       window: page,
       pluginHandleMap,
       vaultName,
+      vaultPath,
       paths: this.paths,
+      reloadPlugin: (pluginId) => this.reloadPlugin(context, pluginId),
     };
+    return context;
+  }
+
+  /**
+   * Copies the vault's notes and config folder so the current state can be
+   * restored later with `restoreVault()`.
+   */
+  async snapshotVault(vault: VaultPageTextContext): Promise<VaultSnapshot> {
+    const snapshot = await createVaultSnapshot(vault.vaultPath);
+    this.snapshots.push(snapshot);
+    logger.debug(`Snapshot of ${vault.vaultPath} at ${snapshot.snapshotDir}`);
+    return snapshot;
+  }
+
+  /**
+   * Restores a snapshot in place. Changed notes are reconciled into the
+   * running vault; the window is only reloaded when config that Obsidian
+   * reads at startup has changed, or when `reload` is forced.
+   * `vault.pluginHandleMap` is refreshed in place.
+   */
+  async restoreVault(
+    vault: VaultPageTextContext,
+    snapshot: VaultSnapshot,
+    options: { reload?: boolean } = {}
+  ): Promise<VaultPageTextContext> {
+    if (snapshot.vaultPath !== vault.vaultPath) {
+      throw new Error(
+        `Snapshot belongs to ${snapshot.vaultPath}, not ${vault.vaultPath}`
+      );
+    }
+
+    const page = vault.window;
+    const configDir = await page.evaluate(() => app.vault.configDir);
+    const result = await restoreVaultSnapshot(snapshot, configDir);
+    logger.debug(
+      `Restored snapshot: ${result.written.length} written, ${result.removed.length} removed`
+    );
+
+    const shouldReload = options.reload ?? result.configChanged;
+
+    if (shouldReload) {
+      logger.debug(chalk.blue("Reloading vault to apply restored config..."));
+      await page.reload();
+      await this.waitForVaultReady(page);
+    } else {
+      const changed = [...result.removed, ...result.written].filter(
+        (p) => !p.split("/").some((segment) => segment.startsWith("."))
+      );
+      await page.evaluate(async (paths) => {
+        const adapter = app.vault.adapter as any;
+        for (const p of paths) {
+          await adapter.reconcileFile(p, p, true);
+        }
+      }, changed);
+    }
+
+    await waitForMetadataCache(page);
+
+    const pluginIds = await page.evaluate(() => [
+      ...app.plugins.enabledPlugins,
+    ]);
+    vault.pluginHandleMap = await getPluginHandleMap(
+      page,
+      pluginIds.map((pluginId) => ({ pluginId, path: "" }))
+    );
+
+    return vault;
   }
 
   async openSandbox(options: VaultOptions = {}): Promise<VaultPageTextContext> {
@@ -226,8 +604,32 @@ export class ObsidianTestLauncher {
 
   private async installPlugins(
     vaultPath: string,
-    plugins: Array<{ path: string; pluginId: string; useSymlink?: boolean }>
+    plugins: TestPlugin[]
   ): Promise<void> {
+    // Validate every plugin before anything is written to the vault
+    for (const plugin of plugins) {
+      const { path: pluginPath, pluginId, useSymlink, settings } = plugin;
+
+      if (!existsSync(pluginPath)) {
+        throw new Error(`Plugin path not found for ${pluginId}: ${pluginPath}`);
+      }
+
+      const missing = (plugin.required ?? REQUIRED_PLUGIN_FILES).filter(
+        (file) => !existsSync(path.join(pluginPath, file))
+      );
+      if (missing.length > 0) {
+        throw new Error(
+          `Plugin ${pluginId} is missing required files in ${pluginPath}: ${missing.join(", ")}`
+        );
+      }
+
+      if (settings && useSymlink) {
+        throw new Error(
+          `Cannot seed settings for symlinked plugin ${pluginId}: data.json would be written into ${pluginPath}`
+        );
+      }
+    }
+
     const obsidianDir = path.join(vaultPath, ".obsidian");
     const pluginsDir = path.join(obsidianDir, "plugins");
 
@@ -241,16 +643,8 @@ export class ObsidianTestLauncher {
 
     const installedIds: string[] = [];
 
-    for (const { path: pluginPath, pluginId, useSymlink } of plugins) {
-      if (!existsSync(pluginPath)) {
-        console.warn(`Plugin path not found: ${pluginPath}`);
-        continue;
-      }
-
-      if (!existsSync(path.join(pluginPath, "manifest.json"))) {
-        console.warn(`manifest.json not found in: ${pluginPath}`);
-        continue;
-      }
+    for (const plugin of plugins) {
+      const { path: pluginPath, pluginId, useSymlink, settings } = plugin;
 
       const destDir = path.join(pluginsDir, pluginId);
 
@@ -273,19 +667,15 @@ export class ObsidianTestLauncher {
           mkdirSync(destDir, { recursive: true });
         }
 
-        const filesToCopy = ["manifest.json", "main.js", "styles.css"];
-        for (const file of readdirSync(pluginPath)) {
-          const srcFile = path.join(pluginPath, file);
-          const stat = statSync(srcFile);
-
-          if (stat.isDirectory()) continue;
+        this.copyPluginFiles(plugin, destDir);
+      }
 
-          if (filesToCopy.includes(file)) {
-            const destFile = path.join(destDir, file);
-            copyFileSync(srcFile, destFile);
-            logger.debug(`Copied: ${file} to ${destDir}`);
-          }
-        }
+      if (settings) {
+        writeFileSync(
+          path.join(destDir, "data.json"),
+          JSON.stringify(settings, null, 2)
+        );
+        logger.debug(`Wrote data.json for ${pluginId}`);
       }
 
       installedIds.push(pluginId);
@@ -297,6 +687,107 @@ export class ObsidianTestLauncher {
     logger.debug(`Installed plugins: ${installedIds.join(", ")}`);
   }
 
+  private copyPluginFiles(plugin: TestPlugin, destDir: string): void {
+    const matches = globSync(plugin.include ?? DEFAULT_PLUGIN_FILES, {
+      cwd: plugin.path,
+    });
+    for (const match of matches) {
+      const srcFile = path.join(plugin.path, match);
+      const destFile = path.join(destDir, match);
+
+      if (statSync(srcFile).isDirectory()) {
+        cpSync(srcFile, destFile, { recursive: true });
+      } else {
+        mkdirSync(path.dirname(destFile), { recursive: true });
+        copyFileSync(srcFile, destFile);
+      }
+      logger.debug(`Copied: ${match} to ${destDir}`);
+    }
+  }
+
+  /**
+   * Re-copies a plugin's files (unless symlinked), then disables and
+   * re-enables it so the rebuilt code runs without reopening the vault.
+   * `vault.pluginHandleMap` is refreshed in place.
+   */
+  async reloadPlugin(
+    vault: VaultPageTextContext,
+    pluginId: string
+  ): Promise<void> {
+    const plugins = this.vaultPlugins.get(vault.vaultPath) ?? [];
+    const plugin = plugins.find((p) => p.pluginId === pluginId);
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginId} was not installed in this vault`);
+    }
+
+    const page = vault.window;
+
+    if (!plugin.useSymlink) {
+      const configDir = await page.evaluate(() => app.vault.configDir);
+      this.copyPluginFiles(
+        plugin,
+        path.join(vault.vaultPath, configDir, "plugins", pluginId)
+      );
+    }
+
+    logger.debug(chalk.blue(`Reloading plugin ${pluginId}...`));
+    await page.evaluate(async (id) => {
+      await app.plugins.disablePlugin(id);
+      await app.plugins.loadManifests();
+      await app.plugins.enablePlugin(id);
+    }, pluginId);
+
+    await page.waitForFunction(
+      (id) => !!(app.plugins.getPlugin(id) as any)?._loaded,
+      pluginId,
+      { timeout: 10000 }
+    );
+
+    vault.pluginHandleMap = await getPluginHandleMap(page, plugins);
+    logger.debug(chalk.blue(`Plugin ${pluginId} reloaded.`));
+  }
+
+  /**
+   * Runs `body`, and when `OBSIDIAN_E2E_WATCH` is set keeps the app open,
+   * reloading the plugin and running `body` again each time its files
+   * change. Without the env var `body` runs once.
+   *
+   * Watch mode never resolves; use it with `test.setTimeout(0)`.
+   */
+  async watchPlugin(
+    vault: VaultPageTextContext,
+    pluginId: string,
+    body: () => Promise<void>
+  ): Promise<void> {
+    if (!process.env.OBSIDIAN_E2E_WATCH) {
+      await body();
+      return;
+    }
+
+    const plugin = (this.vaultPlugins.get(vault.vaultPath) ?? []).find(
+      (p) => p.pluginId === pluginId
+    );
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginId} was not installed in this vault`);
+    }
+
+    const runBody = async () => {
+      try {
+        await body();
+        logger.info(chalk.green("✔ passed, waiting for changes..."));
+      } catch (error) {
+        logger.error(chalk.red("✘ failed, waiting for changes..."), error);
+      }
+    };
+
+    await runBody();
+
+    for await (const _ of watchDebounced(plugin.path)) {
+      await this.reloadPlugin(vault, pluginId);
+      await runBody();
+    }
+  }
+
   private async enablePlugins(page: Page, pluginIds: string[]): Promise<void> {
     await this.disableRestrictedMode(page);
 
@@ -336,54 +827,82 @@ export class ObsidianTestLauncher {
 
     logger.debug("Attempting to enable community plugins...");
 
-    await page.evaluate(() => {
-      (window as any).app.setting.open();
-      (window as any).app.setting.openTabById("community-plugins");
+    // Same as the settings toggle, without depending on its (localized) label
+    await page.evaluate(() => app.plugins.setEnable(true));
+
+    const finalCheck = await page.evaluate(() => {
+      const app = (window as any).app;
+      return app?.plugins?.isEnabled?.() ?? false;
     });
 
-    const getButtonText = () =>
-      page.evaluate(() => {
-        const button = (
-          window as any
-        ).app.setting.activeTab?.setting?.contentEl?.querySelector(
-          "button.mod-cta"
-        ) as HTMLElement | null;
-        return button?.textContent?.trim() || null;
-      });
+    expect(finalCheck, "Failed to enable community plugins.").toBe(true);
+  }
 
-    const clickButton = () =>
+  // ===================================================================
+  // Popout Windows
+  // ===================================================================
+
+  /**
+   * Runs `action` against the vault window and returns the popout window it
+   * opens. By default the action opens an empty popout leaf.
+   */
+  async openPopout(
+    vault: VaultPageTextContext,
+    action: (page: Page) => Promise<unknown> = (page) =>
       page.evaluate(() => {
-        const button = (
-          window as any
-        ).app.setting.activeTab?.setting?.contentEl?.querySelector(
-          "button.mod-cta"
-        ) as HTMLElement | null;
-        button?.click();
-      });
+        app.workspace.openPopoutLeaf();
+      })
+  ): Promise<Page> {
+    const electronApp = this.getElectronApp();
 
-    let buttonText = await getButtonText();
+    const windowPromise = electronApp.waitForEvent("window", {
+      timeout: 10000,
+    });
+    await action(vault.window);
+    const popout = await windowPromise;
 
-    if (buttonText === "Turn on and reload") {
-      logger.debug("Clicking 'Turn on and reload'...");
-      await clickButton();
-      await page.waitForTimeout(1000);
-      buttonText = await getButtonText();
-    }
+    await this.waitForPopoutReady(popout);
+    this.trackPopout(vault.window, popout);
+    logger.debug(chalk.green("Popout window is ready:", popout.url()));
 
-    if (buttonText === "Turn on community plugins") {
-      logger.debug("Clicking 'Turn on community plugins'...");
-      await clickButton();
-      await page.waitForTimeout(1000);
-    }
+    return popout;
+  }
+
+  /**
+   * Open popout windows belonging to the given vault window
+   */
+  getPopoutWindows(vault: VaultPageTextContext): Page[] {
+    return (this.popouts.get(vault.window) ?? []).filter(
+      (win) => !win.isClosed()
+    );
+  }
 
-    await page.keyboard.press("Escape");
+  async closePopouts(vault: VaultPageTextContext): Promise<void> {
+    for (const popout of this.getPopoutWindows(vault)) {
+      await popout.close();
+    }
+    this.popouts.delete(vault.window);
+  }
 
-    const finalCheck = await page.evaluate(() => {
-      const app = (window as any).app;
-      return app?.plugins?.isEnabled?.() ?? false;
+  async waitForPopoutReady(page: Page): Promise<void> {
+    await page.waitForLoadState("domcontentloaded");
+    await page.waitForSelector(".workspace-leaf", {
+      state: "attached",
+      timeout: 10000,
     });
+  }
 
-    expect(finalCheck, "Failed to enable community plugins.").toBe(true);
+  private trackPopout(owner: Page, popout: Page): void {
+    const list = this.popouts.get(owner) ?? [];
+    list.push(popout);
+    this.popouts.set(owner, list);
+
+    popout.once("close", () => {
+      const remaining = (this.popouts.get(owner) ?? []).filter(
+        (win) => win !== popout
+      );
+      this.popouts.set(owner, remaining);
+    });
   }
 
   // ===================================================================
@@ -415,6 +934,7 @@ export class ObsidianTestLauncher {
 
     await this.closeAllExcept(page);
     logger.debug(`closed all except ${await page.title()}`);
+    this.mainWindow = page;
     return page;
   }
 
@@ -435,6 +955,7 @@ export class ObsidianTestLauncher {
 
     const newPage = await windowPromise;
     await wait(newPage);
+    this.mainWindow = newPage;
 
     for (const window of currentWindows) {
       if (window !== newPage && !window.isClosed()) {
@@ -443,6 +964,7 @@ export class ObsidianTestLauncher {
         );
         await window.close();
       }
+      this.popouts.delete(window);
     }
 
     logger.debug(chalk.green("New window is ready:", newPage.url()));
@@ -458,6 +980,9 @@ export class ObsidianTestLauncher {
         await window.close();
       }
     }
+    for (const owner of [...this.popouts.keys()]) {
+      if (owner !== keepPage) this.popouts.delete(owner);
+    }
   }
 
   async waitForVaultReady(page: Page): Promise<void> {
@@ -493,6 +1018,16 @@ export class ObsidianTestLauncher {
   // Utilities
   // ===================================================================
 
+  private async forgetVaults(): Promise<void> {
+    if (!this.ipc) return;
+
+    const vaultList = await this.ipc.getVaultList();
+    for (const { path: vaultPath } of Object.values(vaultList?.vault ?? {})) {
+      logger.debug("forget vault", vaultPath);
+      await this.ipc.removeVault(vaultPath);
+    }
+  }
+
   private async clearData(): Promise<void> {
     if (!this.electronApp) return;
 
@@ -535,7 +1070,7 @@ export class ObsidianTestLauncher {
   }
 
   private async getUserDataPath(): Promise<string> {
-    const page = await this.ensureSingleWindow();
+    const page = await this.getMainWindow();
     const userDataDir = await page.evaluate(() => {
       const app = (window as any).app;
       if (app?.vault?.adapter?.basePath) {
@@ -568,3 +1103,23 @@ export class ObsidianTestLauncher {
     return this.paths;
   }
 }
+
+/**
+ * Yields once per burst of file changes under `dir`
+ */
+async function* watchDebounced(
+  dir: string,
+  delayMs = 300
+): AsyncGenerator<void> {
+  let lastEvent = 0;
+  for await (const _ of fs.watch(dir, { recursive: true })) {
+    const now = Date.now();
+    if (now - lastEvent < delayMs) continue;
+    lastEvent = now;
+    // Let the bundler finish writing before reloading
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    yield;
+    // Drop events buffered while the consumer was busy
+    lastEvent = Date.now();
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  defineConfig,
+  type PlaywrightTestConfig,
+  type PlaywrightTestProject,
+} from "@playwright/test";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { ObsidianE2EConfig } from "./config.js";
+import type { TestFixtures, WorkerFixtures } from "./helpers/types.js";
+import { createVersionProjects } from "./versions.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type ObsidianPlaywrightConfig = PlaywrightTestConfig<
+  TestFixtures,
+  WorkerFixtures
+>;
+
+export interface ObsidianConfigOptions extends ObsidianPlaywrightConfig {
+  /**
+   * Plugin directories under test; one project per plugin, named after its
+   * manifest id
+   */
+  plugins?: string[];
+  /**
+   * Obsidian versions to test against; one project per version (per plugin)
+   */
+  obsidianVersions?: string[];
+}
+
+/**
+ * Playwright config with defaults suited to Electron Obsidian tests: a single
+ * worker, generous timeouts, no browser projects and a globalSetup that checks
+ * the unpacked app and the plugin build before any worker starts.
+ *
+ * Explicit `projects` are used as is; otherwise projects are generated from
+ * `plugins` and `obsidianVersions`.
+ *
+ * @example
+ * ```typescript
+ * export default defineObsidianConfig({
+ *   testDir: "./e2e",
+ *   obsidianVersions: ["1.7.7", "1.8.10"],
+ * });
+ * ```
+ */
+export function defineObsidianConfig(
+  options: ObsidianConfigOptions = {}
+): ObsidianPlaywrightConfig {
+  const { plugins, obsidianVersions, ...config } = options;
+  const isCI = !!process.env.CI;
+  const userGlobalSetup = config.globalSetup
+    ? [config.globalSetup].flat()
+    : [];
+
+  return defineConfig<TestFixtures, WorkerFixtures>({
+    testDir: "./e2e",
+    timeout: 60_000,
+    // Obsidian windows compete for focus, so tests run one at a time
+    workers: 1,
+    fullyParallel: false,
+    forbidOnly: isCI,
+    retries: isCI ? 1 : 0,
+    reporter: isCI ? [["list"], ["html", { open: "never" }]] : "list",
+    ...config,
+    expect: { timeout: 10_000, ...config.expect },
+    use: { trace: "retain-on-failure", ...config.use },
+    globalSetup: [globalSetupPath(), ...userGlobalSetup],
+    projects: config.projects ?? createProjects(plugins, obsidianVersions),
+  });
+}
+
+function globalSetupPath(): string {
+  // Matches the extension of this module (.js when built, .ts from source)
+  return path.join(__dirname, `globalSetup${path.extname(__filename)}`);
+}
+
+function createProjects(
+  plugins: string[] | undefined,
+  obsidianVersions: string[] | undefined
+): PlaywrightTestProject[] {
+  const targets: { name?: string; config: Partial<ObsidianE2EConfig> }[] =
+    plugins?.length
+      ? plugins.map((pluginDir) => ({
+          name: readPluginId(pluginDir),
+          config: { pluginDir: path.resolve(pluginDir) },
+        }))
+      : [{ config: {} }];
+
+  return targets.flatMap(({ name, config }) => {
+    if (!obsidianVersions?.length) {
+      return [
+        {
+          name: name ?? "obsidian",
+          use: { obsidianConfig: config } as PlaywrightTestProject["use"],
+        },
+      ];
+    }
+    return createVersionProjects(obsidianVersions, {
+      pluginDir: config.pluginDir,
+      obsidianConfig: config,
+    }).map((project) => ({
+      ...project,
+      name: name ? `${name}-${project.name}` : project.name,
+    }));
+  });
+}
+
+function readPluginId(pluginDir: string): string {
+  const manifestPath = path.join(path.resolve(pluginDir), "manifest.json");
+  if (!existsSync(manifestPath)) {
+    throw new Error(`manifest.json not found at ${manifestPath}`);
+  }
+  return JSON.parse(readFileSync(manifestPath, "utf-8")).id;
+}
@@ -0,0 +1,147 @@
+import type { PlaywrightTestProject } from "@playwright/test";
+import { existsSync, readFileSync } from "fs";
+import fs from "fs/promises";
+import log from "loglevel";
+import path from "path";
+import { gunzipSync } from "zlib";
+import type { ObsidianE2EConfig, ResolvedPaths } from "./config.js";
+
+const logger = log.getLogger("obsidianVersions");
+
+const RELEASE_URL =
+  "https://github.com/obsidianmd/obsidian-releases/releases/download";
+
+/**
+ * Compares dotted version strings numerically
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map((n) => parseInt(n, 10) || 0);
+  const pb = b.split(".").map((n) => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Makes sure `paths.appMainJsPath` exists for `paths.obsidianVersion`.
+ *
+ * The Electron shell from `obsidianUnpackedDir` is copied into
+ * `cacheDir/<version>` together with that version's `obsidian.asar`, taken
+ * from `assetsDir/obsidian-<version>.asar` or downloaded from the official
+ * release. Prepared versions are reused.
+ */
+export async function ensureObsidianVersion(
+  paths: ResolvedPaths
+): Promise<void> {
+  const version = paths.obsidianVersion;
+  if (!version || existsSync(paths.appMainJsPath)) return;
+
+  const shellMain = path.join(paths.obsidianUnpackedDir, paths.appMainFile);
+  if (!existsSync(shellMain)) {
+    throw new Error(
+      `Obsidian app not found at: ${shellMain}. ` +
+        `Run \`npx obsidian-e2e setup\` to unpack Obsidian assets.`
+    );
+  }
+
+  const versionDir = path.dirname(paths.appMainJsPath);
+  const stagingDir = `${versionDir}.tmp-${process.pid}`;
+  logger.info(`Preparing Obsidian ${version} in ${versionDir}`);
+
+  await fs.rm(stagingDir, { recursive: true, force: true });
+  await fs.cp(paths.obsidianUnpackedDir, stagingDir, { recursive: true });
+  await fs.writeFile(
+    path.join(stagingDir, "obsidian.asar"),
+    await readObsidianAsar(paths.assetsDir, version)
+  );
+
+  // Another worker may have finished first; either copy is fine
+  await fs.rename(stagingDir, versionDir).catch(async (error) => {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+    if (!existsSync(paths.appMainJsPath)) throw error;
+  });
+}
+
+async function readObsidianAsar(
+  assetsDir: string,
+  version: string
+): Promise<Buffer> {
+  const localAsar = path.join(assetsDir, `obsidian-${version}.asar`);
+  if (existsSync(localAsar)) {
+    return fs.readFile(localAsar);
+  }
+
+  const url = `${RELEASE_URL}/v${version}/obsidian-${version}.asar.gz`;
+  logger.info(`Downloading ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to download Obsidian ${version}: ${response.status} ${response.statusText}`
+    );
+  }
+  return gunzipSync(Buffer.from(await response.arrayBuffer()));
+}
+
+export interface VersionProjectsOptions {
+  /**
+   * Plugin directory whose manifest.json provides `minAppVersion`
+   * (default: `process.cwd()`)
+   */
+  pluginDir?: string;
+  /**
+   * Extra config applied to every generated project
+   */
+  obsidianConfig?: Partial<ObsidianE2EConfig>;
+  /**
+   * Base project settings shared by every generated project
+   */
+  project?: Omit<PlaywrightTestProject, "name">;
+}
+
+/**
+ * One Playwright project per Obsidian version, named `obsidian-<version>`.
+ * Versions below the manifest's `minAppVersion` are skipped.
+ *
+ * @example
+ * ```typescript
+ * export default defineConfig({
+ *   projects: createVersionProjects(["1.4.16", "1.8.10"]),
+ * });
+ * ```
+ */
+export function createVersionProjects(
+  versions: string[],
+  options: VersionProjectsOptions = {}
+): PlaywrightTestProject[] {
+  const manifestPath = path.join(
+    path.resolve(options.pluginDir ?? process.cwd()),
+    "manifest.json"
+  );
+  const minAppVersion: string | undefined = existsSync(manifestPath)
+    ? JSON.parse(readFileSync(manifestPath, "utf-8")).minAppVersion
+    : undefined;
+
+  return versions
+    .filter((version) => {
+      if (minAppVersion && compareVersions(version, minAppVersion) < 0) {
+        logger.warn(
+          `Skipping Obsidian ${version}: below minAppVersion ${minAppVersion}`
+        );
+        return false;
+      }
+      return true;
+    })
+    .map((version) => ({
+      ...options.project,
+      name: `obsidian-${version}`,
+      use: {
+        ...options.project?.use,
+        obsidianConfig: {
+          ...options.obsidianConfig,
+          obsidianVersion: version,
+        },
+      } as PlaywrightTestProject["use"],
+    }));
+}